@@ -5,13 +5,16 @@
  */
 
 import functions from "./functions";
+import environments from "./environments";
 import symbols from "./symbols";
 import Lexer from "./Lexer";
 import {Token} from "./Token";
+import SourceLocation from "./SourceLocation";
 import{Mode} from "./types";
 import ParseError from "./ParseError";
 import Namespace from "./Namespace";
 import builtinMacros from "./macros";
+import {resolveColor} from "./colors";
 
 import{MacroContextInterface, MacroDefinition, MacroExpansion}
     from "./macros";
@@ -27,6 +30,19 @@ export const implicitCommands = {
     "\\nolimits": true,  // Parser.js
 };
 
+// The number of arguments a macro body given as text uses: up to the highest
+// #n such that #1 to #n all appear (## being an escaped #).
+const countArgs = function(body: string): number {
+    let numArgs = 0;
+    if (body.indexOf("#") !== -1) {
+        const stripped = body.replace(/##/g, "");
+        while (stripped.indexOf("#" + (numArgs + 1)) !== -1) {
+            ++numArgs;
+        }
+    }
+    return numArgs;
+};
+
 export default class MacroExpander implements MacroContextInterface {
     settings: Settings;
     expansionCount: number;
@@ -34,6 +50,10 @@ export default class MacroExpander implements MacroContextInterface {
     macros: Namespace<MacroDefinition>;
     stack: Token[];
     mode: Mode;
+    lastPopped: Token | undefined; // The most recently popped token.
+    // Expansions whose tokens may still be on the stack, innermost last, for
+    // reporting to `settings.onExpand`.
+    traceFrames: {tokens: Token[], base: number}[];
 
     constructor(input: string, settings: Settings, mode: Mode) {
         this.settings = settings;
@@ -43,6 +63,7 @@ export default class MacroExpander implements MacroContextInterface {
         this.macros = new Namespace(builtinMacros, settings.macros);
         this.mode = mode;
         this.stack = []; // contains tokens in REVERSE order
+        this.traceFrames = [];
     }
 
     /**
@@ -90,7 +111,8 @@ export default class MacroExpander implements MacroContextInterface {
      */
     popToken(): Token {
         this.future();  // ensure non-empty stack
-        return this.stack.pop()!;
+        this.lastPopped = this.stack.pop()!;
+        return this.lastPopped;
     }
 
     /**
@@ -125,11 +147,27 @@ export default class MacroExpander implements MacroContextInterface {
     /**
      * Consume the specified number of arguments from the token stream,
      * and return the resulting array of arguments.
+     * If `delimiters` are given (see `MacroExpansion`), the tokens in
+     * `delimiters[0]` must come first, and each argument `i` (counting from
+     * one) is delimited by the tokens in `delimiters[i]`, if any.
      */
-    consumeArgs(numArgs: number): Token[][] {
+    consumeArgs(numArgs: number, delimiters?: string[][]): Token[][] {
+        if (delimiters) {
+            for (const delimiter of delimiters[0]) {
+                const tok = this.popToken();
+                if (tok.text !== delimiter) {
+                    throw new ParseError("Use of macro doesn't match its " +
+                        `definition: expected '${delimiter}'`, tok);
+                }
+            }
+        }
         const args: Token[][] = [];
         // obtain arguments, either single token or balanced {…} group
         for (let i = 0; i < numArgs; ++i) {
+            if (delimiters && delimiters[i + 1].length > 0) {
+                args[i] = this.consumeDelimitedArg(delimiters[i + 1]);
+                continue;
+            }
             this.consumeSpaces();  // ignore spaces before each argument
             const startOfArg = this.popToken();
             if (startOfArg.text === "{") {
@@ -161,6 +199,122 @@ export default class MacroExpander implements MacroContextInterface {
         return args;
     }
 
+    /**
+     * Consume an argument that extends up to the first occurrence of the
+     * `delimiter` tokens outside braces, and return it without the delimiter
+     * (in reverse order, like `consumeArgs`).  As in TeX, if the argument is
+     * a single `{…}` group, its braces are removed.
+     */
+    consumeDelimitedArg(delimiter: string[]): Token[] {
+        const arg: Token[] = [];
+        let depth = 0;
+        // Index of the token closing the group the argument starts with.
+        let firstGroupEnd = -1;
+        for (;;) {
+            const tok = this.popToken();
+            if (tok.text === "EOF") {
+                throw new ParseError("End of input in macro argument: " +
+                    `delimiter '${delimiter.join("")}' not found`,
+                    arg.length > 0 ? arg[0] : tok);
+            }
+            if (tok.text === "{") {
+                ++depth;
+            } else if (tok.text === "}") {
+                if (depth === 0) {
+                    throw new ParseError("Unexpected '}' in macro argument: " +
+                        `delimiter '${delimiter.join("")}' not found`, tok);
+                }
+                --depth;
+                if (depth === 0 && firstGroupEnd === -1) {
+                    firstGroupEnd = arg.length;
+                }
+            }
+            arg.push(tok);
+            // Delimiters contain no braces, so all of a delimiter that ends
+            // outside braces is outside braces.
+            if (depth === 0 && arg.length >= delimiter.length &&
+                    delimiter.every((text, i) =>
+                        arg[arg.length - delimiter.length + i].text === text)) {
+                arg.splice(arg.length - delimiter.length);
+                break;
+            }
+        }
+        if (arg.length > 0 && arg[0].text === "{" &&
+                firstGroupEnd === arg.length - 1) {
+            arg.pop();
+            arg.shift();
+        }
+        arg.reverse(); // to fit in with stack order
+        return arg;
+    }
+
+    /**
+     * If the next token is `[`, consume the bracketed optional argument
+     * and return it (in reverse order, like `consumeArgs`).  Otherwise,
+     * return `null` without consuming anything.
+     */
+    consumeOptionalArg(): Token[] | null {
+        this.consumeSpaces();
+        const startOfArg = this.future();
+        if (startOfArg.text !== "[") {
+            return null;
+        }
+        this.popToken();
+        const arg: Token[] = [];
+        let depth = 0;
+        for (;;) {
+            const tok = this.popToken();
+            if (tok.text === "]" && depth === 0) {
+                break;
+            } else if (tok.text === "{") {
+                ++depth;
+            } else if (tok.text === "}") {
+                --depth;
+            } else if (tok.text === "EOF") {
+                throw new ParseError(
+                    "End of input in optional macro argument", startOfArg);
+            }
+            arg.push(tok);
+        }
+        arg.reverse();
+        return arg;
+    }
+
+    /**
+     * Given `\begin` or `\end` as `command`, if the next tokens are `{name}`
+     * for an environment defined by macros `command{name}` (see
+     * `\newenvironment`), consume them and return `name`.  Otherwise, return
+     * `null` without consuming anything.
+     */
+    consumeEnvironmentName(command: string): string | null {
+        const consumed: Token[] = [];
+        let name = "";
+        let tok = this.popToken();
+        consumed.push(tok);
+        while (tok.text === " ") {
+            tok = this.popToken();
+            consumed.push(tok);
+        }
+        if (tok.text === "{") {
+            for (;;) {
+                tok = this.popToken();
+                consumed.push(tok);
+                if (tok.text === "}") {
+                    if (this.macros.has(command + "{" + name + "}")) {
+                        return name;
+                    }
+                    break;
+                } else if (tok.text === "{" || tok.text === "EOF") {
+                    break;
+                }
+                name += tok.text;
+            }
+        }
+        consumed.reverse();
+        this.pushTokens(consumed);
+        return null;
+    }
+
     /**
      * Expand the next token only once if possible.
      *
@@ -175,17 +329,40 @@ export default class MacroExpander implements MacroContextInterface {
      * In either case, the next token will be on the top of the stack,
      * or the stack will be empty.
      *
+     * If `expandableOnly` is set, tokens marked unexpandable (see `\\let`)
+     * count as fully expanded.
+     *
      * Used to implement `expandAfterFuture` and `expandNextToken`.
      *
      * At the moment, macro expansion doesn't handle delimited macros,
      * i.e. things like those defined by \def\foo#1\end{…}.
      * See the TeX book page 202ff. for details on how those should behave.
      */
-    expandOnce(): Token | Token[] {
+    expandOnce(expandableOnly?: boolean): Token | Token[] {
         const topToken = this.popToken();
         const name = topToken.text;
-        const expansion = this._getExpansion(name);
-        if (expansion == null) { // mainly checking for undefined here
+        const index = this.stack.length; // where topToken was on the stack
+        if (topToken.noexpand) {
+            this.pushToken(topToken);
+            return topToken;
+        }
+        const envName = name === "\\begin" || name === "\\end" ?
+            this.consumeEnvironmentName(name) : null;
+        if (envName != null) {
+            // Like LaTeX, put a user-defined environment in a group:
+            // \begin{name} → \begingroup\begin{name} and
+            // \end{name} → \end{name}\endgroup, where \begin{name} and
+            // \end{name} are the macros defining the environment.
+            const macro = new Token(name + "{" + envName + "}", topToken.loc);
+            const tokens = name === "\\begin" ?
+                [macro, new Token("\\begingroup", topToken.loc)] :
+                [new Token("\\endgroup", topToken.loc), macro];
+            this.pushTokens(tokens);
+            return tokens;
+        }
+        const found = this._getExpansion(name);
+        if (found == null || // mainly checking for undefined here
+                (expandableOnly && found.expansion.unexpandable)) {
             // Fully expanded
             this.pushToken(topToken);
             return topToken;
@@ -195,9 +372,33 @@ export default class MacroExpander implements MacroContextInterface {
             throw new ParseError("Too many expansions: infinite loop or " +
                 "need to increase maxExpand setting");
         }
+        const expansion = found.expansion;
         let tokens = expansion.tokens;
-        if (expansion.numArgs) {
-            const args = this.consumeArgs(expansion.numArgs);
+        let args: Token[][] = [];
+        let usedDefaultArg = false;
+        if (expansion.numArgs || expansion.delimiters) {
+            if (expansion.defaultArg) {
+                // The first argument is optional, so look ahead for a `[`.
+                const optArg = this.consumeOptionalArg();
+                usedDefaultArg = !optArg;
+                args = [optArg || expansion.defaultArg,
+                    ...this.consumeArgs(expansion.numArgs - 1)];
+            } else {
+                args = this.consumeArgs(
+                    expansion.numArgs, expansion.delimiters);
+            }
+        }
+        if (!found.fromInput) {
+            // Locate the tokens of the definition in this macro call, which
+            // extends over the arguments (and whatever else was consumed).
+            const callSite = SourceLocation.range(topToken, this.lastPopped);
+            tokens = tokens.map(token => token.expandedBy(callSite));
+            if (usedDefaultArg) {
+                // The default argument is part of the definition too.
+                args[0] = args[0].map(token => token.expandedBy(callSite));
+            }
+        }
+        if (args.length > 0) {
             // paste arguments in place of the placeholders
             tokens = tokens.slice(); // make a shallow copy
             for (let i = tokens.length - 1; i >= 0; --i) {
@@ -222,11 +423,44 @@ export default class MacroExpander implements MacroContextInterface {
                 }
             }
         }
+        if (this.settings.onExpand) {
+            this.traceExpansion(topToken, index, args, tokens);
+        }
         // Concatenate expansion onto top of stack.
         this.pushTokens(tokens);
         return tokens;
     }
 
+    /**
+     * Report the expansion of `token`, which was at `index` on the stack, to
+     * `settings.onExpand`, and remember where the resulting `tokens` will be
+     * pushed, so expansions of them can be reported as nested in this one.
+     */
+    traceExpansion(
+        token: Token,
+        index: number,
+        args: Token[][],
+        tokens: Token[],
+    ) {
+        // Drop the expansions that didn't produce `token`.
+        const frames = this.traceFrames;
+        while (frames.length > 0) {
+            const frame = frames[frames.length - 1];
+            if (frame.tokens[index - frame.base] === token) {
+                break;
+            }
+            frames.pop();
+        }
+        this.settings.onExpand!({
+            name: token.text,
+            loc: token.loc,
+            args: args.map(arg => arg.slice().reverse()),
+            tokens: tokens.slice().reverse(),
+            depth: frames.length,
+        });
+        frames.push({tokens, base: this.stack.length});
+    }
+
     /**
      * Expand the next token only once (if possible), and return the resulting
      * top token on the stack (without removing anything from the stack).
@@ -248,7 +482,7 @@ export default class MacroExpander implements MacroContextInterface {
             if (expanded instanceof Token) {
                 // \relax stops the expansion, but shouldn't get returned (a
                 // null return value couldn't get implemented as a function).
-                if (expanded.text === "\\relax") {
+                if (expanded.text === "\\relax" || expanded.treatAsRelax) {
                     this.stack.pop();
                 } else {
                     return this.stack.pop()!;  // === expanded
@@ -282,6 +516,29 @@ export default class MacroExpander implements MacroContextInterface {
         return output;
     }
 
+    /**
+     * Fully expand the given tokens (in reverse order, like macro bodies),
+     * leaving unexpandable tokens as they are, and return the result, also in
+     * reverse order.  Used to implement `\\edef`.
+     */
+    expandTokens(tokens: Token[]): Token[] {
+        const output : Token[] = [];
+        const oldStackLength = this.stack.length;
+        this.pushTokens(tokens);
+        while (this.stack.length > oldStackLength) {
+            const expanded = this.expandOnce(true);
+            // expandOnce returns Token if and only if it's fully expanded.
+            if (expanded instanceof Token) {
+                // A fresh token, so that neither `noexpand` nor
+                // `treatAsRelax` is stored: the expansion of \noexpand\macro
+                // is \macro itself, expandable again from now on.
+                const token = this.stack.pop()!;
+                output.push(new Token(token.text, token.loc));
+            }
+        }
+        return output.reverse();
+    }
+
     /**
      * Fully expand the given macro name and return the result as a string,
      * or return `undefined` if no such macro is defined.
@@ -295,11 +552,26 @@ export default class MacroExpander implements MacroContextInterface {
         }
     }
 
+    /**
+     * Resolve a color expression into a CSS color, or return `null` if it
+     * isn't valid.  Theme colors of the `colorMap` setting come first, then
+     * colors as by `resolveColor`, looking up those defined by \definecolor
+     * and \colorlet like macros.
+     */
+    resolveColor(expression: string): string | null {
+        return this.settings.themeColor(expression.trim()) ||
+            resolveColor(expression, name => this.expandMacroAsText(name));
+    }
+
     /**
      * Returns the expanded macro as a reversed array of tokens and a macro
-     * argument count.  Or returns `null` if no such macro.
+     * argument count, and whether the tokens were taken from the input (by a
+     * macro defined as a function) rather than from a definition.  Or returns
+     * `null` if no such macro.
      */
-    _getExpansion(name: string): null | MacroExpansion {
+    _getExpansion(
+        name: string,
+    ): null | {expansion: MacroExpansion, fromInput: boolean} {
         const definition = this.macros.get(name);
         if (!definition) { // mainly checking for undefined here
             return null;
@@ -307,26 +579,46 @@ export default class MacroExpander implements MacroContextInterface {
         const expansion =
             typeof definition === "function" ? definition(this) : definition;
         if (typeof expansion === "string") {
-            let numArgs = 0;
-            if (expansion.indexOf("#") !== -1) {
-                const stripped = expansion.replace(/##/g, "");
-                while (stripped.indexOf("#" + (numArgs + 1)) !== -1) {
-                    ++numArgs;
-                }
-            }
-            const bodyLexer = new Lexer(expansion, this.settings);
-            const tokens : Token[] = [];
-            let tok = bodyLexer.lex();
-            while (tok.text !== "EOF") {
-                tokens.push(tok);
-                tok = bodyLexer.lex();
+            const tokens = this.lexText(expansion);
+            return {
+                expansion: {tokens, numArgs: countArgs(expansion)},
+                fromInput: false,
+            };
+        }
+        if ("definition" in expansion) {
+            const {definition: body, numArgs, defaultArg} = expansion;
+            const count = numArgs == null ? countArgs(body) : numArgs;
+            if (defaultArg != null && count === 0) {
+                throw new ParseError(`Macro ${name} has a default argument ` +
+                    `but takes no arguments`);
             }
-            tokens.reverse(); // to fit in with stack using push and pop
-            const expanded = {tokens, numArgs};
-            return expanded;
+            return {
+                expansion: {
+                    tokens: this.lexText(body),
+                    numArgs: count,
+                    defaultArg: defaultArg == null ?
+                        undefined : this.lexText(defaultArg),
+                },
+                fromInput: false,
+            };
         }
 
-        return expansion;
+        return {expansion, fromInput: typeof definition === "function"};
+    }
+
+    /**
+     * Lex the text of a macro body (or default argument) into tokens, in
+     * reverse order to fit in with the stack.
+     */
+    lexText(text: string): Token[] {
+        const bodyLexer = new Lexer(text, this.settings);
+        const tokens : Token[] = [];
+        let tok = bodyLexer.lex();
+        while (tok.text !== "EOF") {
+            tokens.push(tok);
+            tok = bodyLexer.lex();
+        }
+        return tokens.reverse();
     }
 
     /**
@@ -342,4 +634,24 @@ export default class MacroExpander implements MacroContextInterface {
             symbols.text.hasOwnProperty(name) ||
             implicitCommands.hasOwnProperty(name);
     }
+
+    /**
+     * Determine whether a command is expandable, meaning that it's a macro
+     * that doesn't just stand for a function or symbol (see `\\let`).
+     */
+    isExpandable(name: string): boolean {
+        const macro = this.macros.get(name);
+        return macro != null &&
+            (typeof macro !== "object" || !("unexpandable" in macro) ||
+                !macro.unexpandable);
+    }
+
+    /**
+     * Determine whether an environment is currently defined, either built in
+     * or by macros (in the current group).
+     */
+    isEnvironmentDefined(name: string): boolean {
+        return environments.hasOwnProperty(name) ||
+            this.macros.has("\\begin{" + name + "}");
+    }
 }
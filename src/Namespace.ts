@@ -13,9 +13,9 @@ import ParseError from "./ParseError";
 export type Mapping<Value> = {[k:string]: Value};
 
 export default class Namespace<Value> {
-    current: Mapping<Value>;
+    current: Mapping<Value | undefined>;
     builtins: Mapping<Value>;
-    undefStack: Mapping<Value>[];
+    undefStack: Mapping<Value | undefined>[];
 
     /**
      * Both arguments are optional.  The first argument is an object of
@@ -74,7 +74,7 @@ export default class Namespace<Value> {
      * to `false` in JavaScript.  Use `if (namespace.get(...) != null)` or
      * `if (namespace.has(...))`.
      */
-    get(name: string): Value {
+    get(name: string): Value | undefined {
         if (this.current.hasOwnProperty(name)) {
             return this.current[name];
         } else {
@@ -88,7 +88,7 @@ export default class Namespace<Value> {
      * operation to the undo stack.  Global set() may change the undo
      * operation at every level, so takes time linear in their number.
      */
-    set(name: string, value: Value, global: boolean = false) {
+    set(name: string, value: Value | undefined, global: boolean = false) {
         if (global) {
             // Global set is equivalent to setting in all groups.  Simulate this
             // by destroying any undos currently scheduled for this name,
@@ -48,6 +48,8 @@ export type OptionsData = {
     fontShape?: string;
     sizeMultiplier?: number;
     maxSize: number;
+    leqno?: boolean;
+    sourceRanges?: boolean;
 };
 
 /**
@@ -72,6 +74,8 @@ class Options {
     fontShape: string;
     sizeMultiplier: number;
     maxSize: number;
+    leqno: boolean;         // Whether tags go on the left.
+    sourceRanges: boolean;
     _fontMetrics: FontMetrics | undefined;
 
     /**
@@ -91,6 +95,8 @@ class Options {
         this.fontShape = data.fontShape || '';
         this.sizeMultiplier = sizeMultipliers[this.size - 1];
         this.maxSize = data.maxSize;
+        this.leqno = !!data.leqno;
+        this.sourceRanges = !!data.sourceRanges;
         this._fontMetrics = undefined;
     }
 
@@ -110,6 +116,8 @@ class Options {
             fontWeight: this.fontWeight,
             fontShape: this.fontShape,
             maxSize: this.maxSize,
+            leqno: this.leqno,
+            sourceRanges: this.sourceRanges,
         };
 
         for (const key in extension) {
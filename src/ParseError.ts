@@ -1,8 +1,36 @@
 // @flow
 import {Token} from "./Token";
+import SourceLocation from "./SourceLocation";
 
 import{AnyParseNode} from "./parseNode";
 
+/**
+ * Describe the input around `loc`, with the text at `loc` underlined.
+ */
+const underlineContext = function(loc: SourceLocation): string {
+    const input = loc.lexer.input;
+    const start = loc.start;
+    const end = loc.end;
+
+    // Underline token in question using combining underscores
+    const underlined = input.slice(start, end).replace(/[^]/g, "$&\u0332");
+
+    // Extract some context from the input and add it to the error
+    let left;
+    if (start > 15) {
+        left = "…" + input.slice(start - 15, start);
+    } else {
+        left = input.slice(0, start);
+    }
+    let right;
+    if (end + 15 < input.length) {
+        right = input.slice(end, end + 15) + "…";
+    } else {
+        right = input.slice(end);
+    }
+    return left + underlined + right;
+};
+
 /**
  * This is the ParseError class, which is the main error thrown by KaTeX
  * functions when something has gone wrong. This is used to distinguish internal
@@ -14,6 +42,14 @@ import{AnyParseNode} from "./parseNode";
 class ParseError {
     position: number | void;
         // Error position based on passed-in Token or ParseNode.
+    length: number | void;
+        // Length of the affected text based on passed-in Token or ParseNode.
+    rawMessage: string;
+        // The underlying error message without any context added.
+    expansion: {input: string, position: number, length: number} | void;
+        // If the error is inside a macro expansion, where in the macro's
+        // definition it is.  `position` and `length` then locate the call of
+        // the macro in the user's input.
 
     constructor(
         message: string,               // The error message
@@ -21,41 +57,35 @@ class ParseError {
     ) {
         let error = "KaTeX parse error: " + message;
         let start;
+        let end;
 
         const loc = token && token.loc;
+        let expansion;
         if (loc && loc.start <= loc.end) {
             // If we have the input and a position, make the error a bit fancier
 
-            // Get the input
-            const input = loc.lexer.input;
+            // Report the position in the user's input, even if the error is
+            // in a macro expansion.
+            const site = loc.callSite();
 
             // Prepend some information
-            start = loc.start;
-            const end = loc.end;
-            if (start === input.length) {
+            start = site.start;
+            end = site.end;
+            if (start === site.lexer.input.length) {
                 error += " at end of input: ";
             } else {
                 error += " at position " + (start + 1) + ": ";
             }
+            error += underlineContext(site);
 
-            // Underline token in question using combining underscores
-            const underlined = input.slice(start, end).replace(/[^]/g, "$&\u0332");
-
-            // Extract some context from the input and add it to the error
-            let left;
-            if (start > 15) {
-                left = "…" + input.slice(start - 15, start);
-            } else {
-                left = input.slice(0, start);
-            }
-            let right;
-            if (end + 15 < input.length) {
-                right = input.slice(end, end + 15) + "…";
-            } else {
-                right = input.slice(end);
+            if (site !== loc) {
+                error += " (in macro expansion: " + underlineContext(loc) + ")";
+                expansion = {
+                    input: loc.lexer.input,
+                    position: loc.start,
+                    length: loc.end - loc.start,
+                };
             }
-            error += left + underlined + right;
-
         }
 
         // Some hackery to make ParseError a prototype of Error
@@ -64,6 +94,11 @@ class ParseError {
         self.name = "ParseError";
         self.__proto__ = ParseError.prototype;
         self.position = start;
+        if (start != null && end != null) {
+            self.length = end - start;
+        }
+        self.rawMessage = message;
+        self.expansion = expansion;
         return self;
     }
 }
@@ -8,7 +8,7 @@ import {supportedCodepoint} from "./unicodeScripts";
 import unicodeAccents from "./unicodeAccents";
 import unicodeSymbols from "./unicodeSymbols";
 import utils from "./utils";
-import {checkNodeType, infix, text, color, textord, supsub, colorToken, size, url} from "./parseNode";
+import {checkNodeType, infix, text, color, textord, supsub, colorToken, size, url, error} from "./parseNode";
 import ParseError from "./ParseError";
 import {combiningDiacriticalMarksEndRegex} from "./Lexer";
 import Settings from "./Settings";
@@ -56,6 +56,8 @@ export default class Parser {
     settings: Settings;
     leftrightDepth: number;
     nextToken: Token;
+    prevToken: Token | undefined;   // The most recently consumed token.
+    errors: ParseError[];           // Errors recovered from so far.
 
     constructor(input: string, settings: Settings) {
         // Start in math mode
@@ -67,6 +69,7 @@ export default class Parser {
         this.settings = settings;
         // Count leftright depth (for \middle errors)
         this.leftrightDepth = 0;
+        this.errors = [];
     }
 
     /**
@@ -85,11 +88,97 @@ export default class Parser {
         }
     }
 
+    /**
+     * In error recovery mode, records `error` and returns an error node to
+     * stand in for the broken part of the input: `body` is whatever of it
+     * could be parsed, and `text` is what couldn't (or a placeholder for
+     * missing input).  Otherwise, throws `error`.
+     */
+    recover(
+        error: ParseError,
+        body: AnyParseNode[],
+        text: string,
+        loc?: SourceLocation,
+    ): error {
+        if (!this.settings.errorRecovery) {
+            throw error;
+        }
+        this.errors.push(error);
+        return {
+            type: "error",
+            mode: this.mode,
+            loc,
+            error,
+            color: this.settings.errorColor,
+            body,
+            text,
+        };
+    }
+
+    /**
+     * Parses `tokens` as an expression, as if they came next in the input,
+     * and then carries on with the input where it left off.
+     */
+    subparse(tokens: Token[]): AnyParseNode[] {
+        // Put back the look ahead token, and end the expression with an
+        // excess } (the stack holds tokens in reverse order).
+        this.gullet.pushToken(this.nextToken);
+        this.gullet.pushToken(new Token("}"));
+        this.gullet.pushTokens(tokens.slice().reverse());
+        this.consume();
+        const parse = this.parseExpression(false);
+        this.expect("}");
+        return parse;
+    }
+
+    /**
+     * Gives the current equation the next equation number as its tag, unless
+     * it has one from \tag or is marked by \notag: steps \c@equation, and
+     * sets \df@tag and \df@tag@ref (what \ref shows) to the number.
+     */
+    numberEquation() {
+        const macros = this.gullet.macros;
+        if (macros.get("\\df@tag") || macros.get("\\df@notag")) {
+            return;
+        }
+        const number = parseInt(
+            this.gullet.expandMacroAsText("\\c@equation") || "0") + 1;
+        macros.set("\\c@equation", String(number), true);
+        macros.set("\\df@tag", `\\text{(${number})}`, true);
+        macros.set("\\df@tag@ref", String(number), true);
+    }
+
+    /**
+     * Makes the \label of the current equation, if any, refer to its tag, by
+     * defining \r@key globally, and returns the key.
+     */
+    labelEquation(): string | undefined {
+        const label = this.gullet.expandMacroAsText("\\df@label");
+        if (label != null) {
+            this.gullet.macros.set("\\r@" + label,
+                this.gullet.expandMacroAsText("\\df@tag@ref") || "", true);
+        }
+        return label;
+    }
+
+    /**
+     * Reports the \label of the current equation, if any, when the equation
+     * has no number for \ref to show.
+     */
+    reportUnnumberedLabel() {
+        const label = this.gullet.expandMacroAsText("\\df@label");
+        if (label != null) {
+            this.settings.reportNonstrict("unnumberedLabel",
+                `\\label{${label}} is in an equation without a number`);
+        }
+    }
+
     /**
      * Considers the current look ahead token as consumed,
      * and fetches the one after that as the new look ahead.
      */
     consume() {
+        this.prevToken = this.nextToken;
         this.nextToken = this.gullet.expandNextToken();
     }
 
@@ -105,9 +194,11 @@ export default class Parser {
      * Main parsing function, which parses an entire input.
      */
     parse(): AnyParseNode[] {
-        // Create a group namespace for the math expression.
-        // (LaTeX creates a new group for every $...$, $$...$$, \[...\].)
-        this.gullet.beginGroup();
+        if (!this.settings.globalGroup) {
+            // Create a group namespace for the math expression.
+            // (LaTeX creates a new group for every $...$, $$...$$, \[...\].)
+            this.gullet.beginGroup();
+        }
 
         // Use old \color behavior (same as LaTeX's \textcolor) if requested.
         // We do this within the group for the math expression, so it doesn't
@@ -120,11 +211,24 @@ export default class Parser {
         this.consume();
         const parse = this.parseExpression(false);
 
+        // When recovering from errors, skip over unmatched closers such as
+        // `}` or `\right` and carry on parsing after them.
+        while (this.settings.errorRecovery && this.nextToken.text !== "EOF") {
+            const token = this.nextToken;
+            this.consume();
+            parse.push(this.recover(
+                new ParseError("Unexpected '" + token.text + "'", token),
+                [], token.text, token.loc));
+            parse.push(...this.parseExpression(false));
+        }
+
         // If we succeeded, make sure there's an EOF at the end
         this.expect("EOF", false);
 
         // End the group namespace for the expression
-        this.gullet.endGroup();
+        if (!this.settings.globalGroup) {
+            this.gullet.endGroup();
+        }
         return parse;
     }
 
@@ -169,7 +273,9 @@ export default class Parser {
             if (breakOnInfix && functions[lex.text] && functions[lex.text].infix) {
                 break;
             }
-            const atom = this.parseAtom(breakOnTokenText);
+            const atom = this.settings.errorRecovery ?
+                this.parseAtomOrRecover(breakOnTokenText) :
+                this.parseAtom(breakOnTokenText);
             if (!atom) {
                 break;
             }
@@ -267,34 +373,92 @@ export default class Parser {
      * contained within a color node whose color is determined by errorColor
      */
     handleUnsupportedCmd(): AnyParseNode {
-        const text = this.nextToken.text;
-        const textordArray : AnyParseNode[]= [];
+        const colorNode = this.errorText([this.textOf(this.nextToken.text)]);
+        this.consume();
+        return colorNode;
+    }
 
-        for (let i = 0; i < text.length; i++) {
-            textordArray.push({type: "textord", mode: "text", text: text[i]});
-        }
+    /**
+     * Reports the use of `command`, which the `trust` setting doesn't trust,
+     * like nonstrict input, and returns what to show in its place: `body`
+     * (by default, the command's name) in errorColor.  Handlers of commands
+     * subject to `trust` return this when `settings.isTrusted` fails.
+     */
+    formatUntrustedCmd(
+        command: string,
+        body?: AnyParseNode[],
+        token?: Token,
+    ): color {
+        this.settings.reportNonstrict("untrustedCommand",
+            `${command} is not trusted (see the trust setting)`, token);
+        return this.errorText(body || [this.textOf(command)]);
+    }
 
-        const textNode : text = {
+    /**
+     * A text node showing `str` as it is.
+     */
+    textOf(str: string): text {
+        const textordArray : AnyParseNode[]= [];
+        for (let i = 0; i < str.length; i++) {
+            textordArray.push({type: "textord", mode: "text", text: str[i]});
+        }
+        return {
             type: "text",
             mode: this.mode,
             body: textordArray,
         };
+    }
 
-        const colorNode : color = {
+    /**
+     * Colors `body` with errorColor.
+     */
+    errorText(body: AnyParseNode[]): color {
+        return {
             type: "color",
             mode: this.mode,
             color: this.settings.errorColor,
-            body: [textNode],
+            body,
         };
+    }
 
-        this.consume();
-        return colorNode;
+    /**
+     * Like `parseAtom`, but if the atom fails to parse, replaces it with an
+     * error node covering the input consumed by the attempt.  Only used in
+     * error recovery mode.
+     */
+    parseAtomOrRecover(breakOnTokenText?: BreakToken): null | AnyParseNode {
+        const firstToken = this.nextToken;
+        const mode = this.mode;
+        const leftrightDepth = this.leftrightDepth;
+        const groupDepth = this.gullet.macros.undefStack.length;
+        try {
+            return this.parseAtom(breakOnTokenText);
+        } catch (error) {
+            if (!(error instanceof ParseError)) {
+                throw error;
+            }
+            // Undo whatever state the failed attempt left behind.
+            while (this.gullet.macros.undefStack.length > groupDepth) {
+                this.gullet.endGroup();
+            }
+            this.switchMode(mode);
+            this.leftrightDepth = leftrightDepth;
+            // Skip at least the first token, so that parsing makes progress.
+            if (this.nextToken === firstToken) {
+                this.consume();
+            }
+            const loc = SourceLocation.range(firstToken, this.prevToken);
+            const text = loc ?
+                loc.lexer.input.slice(loc.start, loc.end) : firstToken.text;
+            return this.recover(error, [], text, loc);
+        }
     }
 
     /**
      * Parses a group with optional super/subscripts.
      */
     parseAtom(breakOnTokenText?: BreakToken): null | AnyParseNode {
+        const firstToken = this.nextToken;
         // The body of an atom is an implicit group, so that things like
         // \left(x\right)^2 work correctly.
         const base = this.parseGroup("atom", false, undefined, breakOnTokenText);
@@ -376,6 +540,7 @@ export default class Parser {
             return {
                 type: "supsub",
                 mode: this.mode,
+                loc: SourceLocation.range(firstToken, this.prevToken),
                 base: base,
                 sup: superscript,
                 sub: subscript,
@@ -429,7 +594,14 @@ export default class Parser {
             this.consume();
         }
         const {args, optArgs} = this.parseArguments(func, funcData);
-        return this.callFunction(func, args, optArgs, token, breakOnTokenText);
+        const result =
+            this.callFunction(func, args, optArgs, token, breakOnTokenText);
+        // Cover the command together with its arguments, unless the handler
+        // already knows better.
+        if (!result.loc) {
+            result.loc = SourceLocation.range(token, this.prevToken);
+        }
+        return result;
     }
 
     /**
@@ -495,15 +667,22 @@ export default class Parser {
                 this.consumeSpaces();
             }
             const nextToken = this.nextToken;
-            const arg = this.parseGroupOfType("argument to '" + func + "'",
+            let arg = this.parseGroupOfType("argument to '" + func + "'",
                 argType, isOptional, baseGreediness);
             if (!arg) {
                 if (isOptional) {
                     optArgs.push(null);
                     continue;
                 }
-                throw new ParseError(
+                const error = new ParseError(
                     "Expected group after '" + func + "'", nextToken);
+                // Only plain groups can be stood in for by a placeholder;
+                // handlers expect other argument types to be specific nodes.
+                if (argType && argType !== "original" &&
+                        argType !== "math" && argType !== "text") {
+                    throw error;
+                }
+                arg = this.recover(error, [], "\u25a1");
             }
             (isOptional ? optArgs : args).push(arg);
         }
@@ -651,17 +830,10 @@ export default class Parser {
         if (!res) {
             return null;
         }
-        const match = (/^(#[a-f0-9]{3}|#?[a-f0-9]{6}|[a-z]+)$/i).exec(res.text);
-        if (!match) {
+        const color = this.gullet.resolveColor(res.text);
+        if (!color) {
             throw new ParseError("Invalid color: '" + res.text + "'", res);
         }
-        let color = match[0];
-        if (/^[0-9a-f]{6}$/i.test(color)) {
-            // We allow a 6-digit HTML color spec without a leading "#".
-            // This follows the xcolor package's HTML color model.
-            // Predefined color names are all missed by this RegEx pattern.
-            color = "#" + color;
-        }
         return {
             type: "color-token",
             mode: this.mode,
@@ -723,8 +895,7 @@ export default class Parser {
         // "undefined" behaviour, and keep them as-is. Some browser will
         // replace backslashes with forward slashes.
         const url = res.text.replace(/\\([#$%&~_^{}])/g, '$1');
-        let result = /^\s*([^\\/#]*?)(?::|&#0*58|&#x0*3a)/i.exec(url);
-        let protocol = (result !== null ? result[1] : "_relative");
+        const protocol = utils.protocolFromUrl(url);
         const allowed = this.settings.allowedProtocols;
         if (!utils.contains(allowed,  "*") &&
             !utils.contains(allowed, protocol)) {
@@ -799,11 +970,16 @@ export default class Parser {
                 this.parseSymbol();
             if (result == null && text[0] === "\\" &&
                     !implicitCommands.hasOwnProperty(text)) {
-                if (this.settings.throwOnError) {
-                    throw new ParseError(
-                        "Undefined control sequence: " + text, firstToken);
+                const error = new ParseError(
+                    "Undefined control sequence: " + text, firstToken);
+                if (this.settings.errorRecovery) {
+                    this.consume();
+                    result = this.recover(error, [], text, firstToken.loc);
+                } else if (this.settings.throwOnError) {
+                    throw error;
+                } else {
+                    result = this.handleUnsupportedCmd();
                 }
-                result = this.handleUnsupportedCmd();
             }
         }
 
@@ -813,7 +989,15 @@ export default class Parser {
         }
         // Make sure we got a close brace
         if (groupEnd) {
-            this.expect(groupEnd);
+            if (this.settings.errorRecovery && this.nextToken.text !== groupEnd) {
+                // Close the group here, keeping what it contains.
+                result = this.recover(new ParseError(
+                    "Expected '" + groupEnd + "', got '" +
+                    this.nextToken.text + "'", this.nextToken), [result!], "",
+                    result!.loc);
+            } else {
+                this.expect(groupEnd);
+            }
         }
         return result;
     }
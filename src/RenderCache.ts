@@ -0,0 +1,129 @@
+// @flow
+/**
+ * A `RenderCache` remembers the results of parsing and building expressions,
+ * so that re-rendering a formula whose source and settings haven't changed
+ * doesn't re-typeset it.  Entries are evicted in least-recently-used order
+ * once the cache grows beyond its size bound.
+ */
+
+import Settings from "./Settings";
+
+export default class RenderCache<Value> {
+    maxSize: number;
+    entries: Map<string, Value>;
+
+    constructor(maxSize: number) {
+        this.maxSize = Math.max(0, maxSize);
+        this.entries = new Map();
+    }
+
+    /**
+     * Get the cached value for `key`, or `undefined` if there is none.
+     * A successful lookup marks the entry as most recently used.
+     */
+    get(key: string): Value | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+        const value = this.entries.get(key)!;
+        // Maps iterate in insertion order, so re-inserting moves the entry
+        // to the most recently used end.
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    /**
+     * Store `value` under `key`, evicting the least recently used entries if
+     * the cache is full.
+     */
+    set(key: string, value: Value) {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        this.evict();
+    }
+
+    /**
+     * Change the maximum number of entries, evicting entries if necessary.
+     * A size of zero disables caching.
+     */
+    resize(maxSize: number) {
+        this.maxSize = Math.max(0, maxSize);
+        this.evict();
+    }
+
+    /**
+     * Remove all entries.
+     */
+    clear() {
+        this.entries.clear();
+    }
+
+    evict() {
+        while (this.entries.size > this.maxSize) {
+            const oldest = this.entries.keys().next().value;
+            this.entries.delete(oldest);
+        }
+    }
+}
+
+// Objects and functions (macro definitions given as functions, a `strict`
+// callback, ...) can't be compared by value, so they are keyed by identity.
+// So callbacks given inline, e.g. a new `trust`, `strict` or `onExpand`
+// function on every render of `Math`, miss the cache every time: they should
+// be defined once, outside of the component or with `React.useCallback`.
+const objectIds: WeakMap<object, number> = new WeakMap();
+let nextObjectId = 0;
+
+const valueKey = function(value: unknown): string {
+    if (typeof value === "string") {
+        return JSON.stringify(value);
+    } else if (Array.isArray(value)) {
+        return "[" + value.map(valueKey).join(",") + "]";
+    } else if (value !== null &&
+               (typeof value === "object" || typeof value === "function")) {
+        let id = objectIds.get(value);
+        if (id === undefined) {
+            id = nextObjectId++;
+            objectIds.set(value, id);
+        }
+        return "#" + id;
+    } else {
+        return String(value);
+    }
+};
+
+/**
+ * Compute a key identifying the result of rendering `expression` with
+ * `settings`.  Two renders with equal keys produce the same tree.
+ */
+export const renderCacheKey = function(
+    expression: string,
+    settings: Settings,
+): string {
+    const parts = [JSON.stringify(expression)];
+    for (const name of Object.keys(settings).sort()) {
+        if (name === "macros") {
+            const macros = settings.macros;
+            // Definitions given by their text are compared by value, as
+            // they are often given inline.
+            const macroParts = Object.keys(macros).sort().map(macro => {
+                const definition = macros[macro];
+                return JSON.stringify(macro) + ":" +
+                    (typeof definition === "object" &&
+                        "definition" in definition ?
+                        JSON.stringify(definition) : valueKey(definition));
+            });
+            parts.push("macros:{" + macroParts.join(",") + "}");
+        } else if (name === "colorMap") {
+            // Often given inline, so compared by value.
+            const colorMap = settings.colorMap;
+            const colorParts = Object.keys(colorMap).sort().map(color =>
+                JSON.stringify(color) + ":" + valueKey(colorMap[color]));
+            parts.push("colorMap:{" + colorParts.join(",") + "}");
+        } else {
+            parts.push(name + ":" + valueKey(settings[name]));
+        }
+    }
+    return parts.join(";");
+};
@@ -11,6 +11,21 @@ import {Token} from "./Token";
 
 import{AnyParseNode} from "./parseNode";
 import{MacroMap} from "./macros";
+import{ExpansionCallback} from "./expansionTrace";
+
+// What a command subject to the `trust` setting is used with: the argument
+// of \htmlClass etc., or the URL of \href, \url and \includegraphics.
+export type TrustContext = {
+    command: string,
+    argument?: string,
+    url?: string,
+    protocol?: string,
+};
+
+export type TrustFunction = (context: TrustContext) => boolean;
+
+// The commands trusted when the `trust` setting isn't given.
+const trustedByDefault = ["\\href", "\\url", "\\includegraphics"];
 
 export type StrictFunction =
     (errorCode: string, errorMsg: string, token?: Token | AnyParseNode) =>
@@ -21,13 +36,20 @@ export type SettingsOptions = {
     leqno?: boolean;
     fleqn?: boolean;
     throwOnError?: boolean;
+    errorRecovery?: boolean;
     errorColor?: string;
+    colorMap?: {[name: string]: string};
     macros?: MacroMap;
+    globalGroup?: boolean;
+    onExpand?: ExpansionCallback;
+    numberEquations?: boolean;
     colorIsTextColor?: boolean;
     strict?: boolean | "ignore" | "warn" | "error" | StrictFunction;
     maxSize?: number;
+    sourceRanges?: boolean;
     maxExpand?: number;
     allowedProtocols?: string[];
+    trust?: boolean | TrustFunction;
 };
 
 /**
@@ -39,19 +61,74 @@ export type SettingsOptions = {
  *                 \textstyle and is placed in an inline-block); or as display
  *                 math (true), meaning that the math starts in \displaystyle
  *                 and is placed in a block with vertical margin.
+ *  - errorRecovery: Whether the parser should recover from errors, marking
+ *                 just the broken part of the input (see `Parser.recover`)
+ *                 instead of failing on the whole expression.
+ *  - errorColor: The color of error messages, which may be a name in
+ *                 `colorMap`.
+ *  - colorMap: Color names standing for CSS custom properties, e.g.
+ *                 `{accent: "--math-accent"}` makes \color{accent} (and
+ *                 \textcolor, \colorbox, ... with the color accent) use the
+ *                 color var(--math-accent), so that formulas follow the
+ *                 page's theme.  These names take precedence over others.
+ *  - macros: Macro definitions by name, like those made by \newcommand.  A
+ *                 definition is either the text of the body, taking as many
+ *                 arguments as it uses (#1, #2, ...), or an object giving the
+ *                 number of arguments and a default for the first, optional
+ *                 one, e.g. {definition: "x_{#1}^{#2}", numArgs: 2,
+ *                 defaultArg: "0"} as for \newcommand{\x}[2][0]{x_{#1}^{#2}}.
+ *                 An environment `name` (as made by \newenvironment) is
+ *                 defined by macros named `\begin{name}` and `\end{name}`.
+ *  - globalGroup: Whether the expression is parsed at the global level, rather
+ *                 than in a group of its own, so that local definitions (e.g.
+ *                 \def or \newcommand) persist in `macros` afterwards.
+ *  - numberEquations: Whether display expressions without a \tag (or
+ *                 \notag) are numbered, following on from the number in the
+ *                 \c@equation macro.  Environments like {equation} and
+ *                 {align} are numbered either way.  As in LaTeX, such an
+ *                 environment with numbered or tagged rows has to be the
+ *                 whole display, without a \tag of its own; otherwise it is
+ *                 an error ("An environment with tagged rows must be the
+ *                 whole display").
+ *  - trust:       Whether to trust the input with commands that could be
+ *                 abused to change the page or link elsewhere: \htmlClass,
+ *                 \htmlId, \htmlStyle, \htmlData, \href, \url and
+ *                 \includegraphics.  Either a boolean or a function of a
+ *                 `TrustContext`, e.g. ({command, protocol}) =>
+ *                 command === "\\href" && protocol === "https".  Untrusted
+ *                 commands are reported like nonstrict input (see `strict`)
+ *                 and shown as plain text in errorColor.  When not given,
+ *                 only \href, \url and \includegraphics are trusted, as
+ *                 they were before this setting.
+ *  - sourceRanges: Whether rendered elements record the range of the input
+ *                 they were built from, as data-source-start and
+ *                 data-source-end attributes (see `sourceRangeOfElement`).
+ *                 This adds attributes to the output, and wraps glyphs in
+ *                 spans that carry them.
+ *  - onExpand:    Called with each step of macro expansion while parsing, to
+ *                 trace how the expression was expanded (see
+ *                 `formatExpansionTrace`).  Cached renders aren't reparsed,
+ *                 so they aren't traced again.
  */
 class Settings {
     displayMode: boolean;
     leqno: boolean;
     fleqn: boolean;
     throwOnError: boolean;
+    errorRecovery: boolean;
     errorColor: string;
+    colorMap: {[name: string]: string};
     macros: MacroMap;
+    globalGroup: boolean;
+    onExpand: ExpansionCallback | undefined;
+    numberEquations: boolean;
     colorIsTextColor: boolean;
     strict: boolean | "ignore" | "warn" | "error" | StrictFunction;
     maxSize: number;
+    sourceRanges: boolean;
     maxExpand: number;
     allowedProtocols: string[];
+    trust: boolean | TrustFunction | undefined;
 
     constructor(options: SettingsOptions) {
         // allow null options
@@ -60,14 +137,42 @@ class Settings {
         this.leqno = utils.deflt(options.leqno, false);
         this.fleqn = utils.deflt(options.fleqn, false);
         this.throwOnError = utils.deflt(options.throwOnError, true);
-        this.errorColor = utils.deflt(options.errorColor, "#cc0000");
+        this.errorRecovery = utils.deflt(options.errorRecovery, false);
+        this.colorMap = options.colorMap || {};
+        const errorColor = utils.deflt(options.errorColor, "#cc0000");
+        this.errorColor = this.themeColor(errorColor) || errorColor;
         this.macros = options.macros || {};
+        this.globalGroup = utils.deflt(options.globalGroup, false);
+        this.onExpand = options.onExpand;
+        this.numberEquations = utils.deflt(options.numberEquations, false);
         this.colorIsTextColor = utils.deflt(options.colorIsTextColor, false);
         this.strict = utils.deflt(options.strict, "warn");
         this.maxSize = Math.max(0, utils.deflt(options.maxSize, Infinity));
+        this.sourceRanges = utils.deflt(options.sourceRanges, false);
         this.maxExpand = Math.max(0, utils.deflt(options.maxExpand, 1000));
         this.allowedProtocols = utils.deflt(options.allowedProtocols,
             ["http", "https", "mailto", "_relative"]);
+        this.trust = options.trust;
+    }
+
+    /**
+     * Whether the input may use a command (which could e.g. inject HTML
+     * attributes), as described by `context`, according to `trust`.
+     */
+    isTrusted(context: TrustContext): boolean {
+        const trust = this.trust;
+        if (trust === undefined) {
+            return utils.contains(trustedByDefault, context.command);
+        }
+        return typeof trust === "function" ? !!trust(context) : trust;
+    }
+
+    /**
+     * The CSS color that the color `name` stands for in `colorMap`, if any.
+     */
+    themeColor(name: string): string | undefined {
+        return this.colorMap.hasOwnProperty(name) ?
+            `var(${this.colorMap[name]})` : undefined;
     }
 
     /**
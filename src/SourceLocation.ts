@@ -4,20 +4,40 @@ import { LexerInterface } from "./Token";
 /**
  * Lexing or parsing positional information for error reporting.
  * This object is immutable.
+ *
+ * Tokens produced by expanding a macro are located in the macro's definition,
+ * with the location of the macro call as their `origin`.  Following origins
+ * outward leads to the user's input (see `callSite`).
  */
 export default class SourceLocation {
     constructor(
         readonly lexer: LexerInterface, // Lexer holding the input string.
         readonly start: number,         // Start offset, zero-based inclusive.
-        readonly end: number           // End offset, zero-based exclusive.
+        readonly end: number,           // End offset, zero-based exclusive.
+        readonly origin?: SourceLocation, // Macro call this was expanded by.
     ) { }
 
+    /**
+     * Returns the location in the user's input this location stems from:
+     * itself, or if it is in a macro definition, the call of the outermost
+     * macro whose expansion led to it.
+     */
+    callSite(): SourceLocation {
+        let loc: SourceLocation = this;
+        while (loc.origin) {
+            loc = loc.origin;
+        }
+        return loc;
+    }
+
     /**
      * Merges two `SourceLocation`s from location providers, given they are
      * provided in order of appearance.
      * - Returns the first one's location if only the first is provided.
      * - Returns a merged range of the first and the last if both are provided
-     *   and their lexers match.
+     *   and they are in the same input (and the same macro expansion).
+     * - Returns a merged range of their call sites if both are provided, but
+     *   are in different macro expansions.
      * - Otherwise, returns null.
      */
     static range(
@@ -26,12 +46,19 @@ export default class SourceLocation {
     ): undefined | SourceLocation {
         if (!second) {
             return first && first.loc;
-        } else if (!first || !first.loc || !second.loc ||
-            first.loc.lexer !== second.loc.lexer) {
+        } else if (!first || !first.loc || !second.loc) {
+            return undefined;
+        } else if (first.loc.lexer === second.loc.lexer &&
+                first.loc.origin === second.loc.origin) {
+            return new SourceLocation(first.loc.lexer, first.loc.start,
+                second.loc.end, first.loc.origin);
+        }
+        const start = first.loc.callSite();
+        const end = second.loc.callSite();
+        if (start.lexer !== end.lexer) {
             return undefined;
-        } else {
-            return new SourceLocation(
-                first.loc.lexer, first.loc.start, second.loc.end);
         }
+        return new SourceLocation(
+            start.lexer, start.start, Math.max(start.end, end.end));
     }
 }
@@ -23,6 +23,8 @@ export interface LexerInterface {input: string, tokenRegex: RegExp}
 export class Token {
     text: string;
     loc?: SourceLocation;
+    noexpand?: boolean;     // don't expand the token (see \noexpand)
+    treatAsRelax?: boolean; // act like \relax, as \noexpand\macro does
 
     constructor(
         text: string,           // the text of this token
@@ -32,6 +34,19 @@ export class Token {
         this.loc = loc;
     }
 
+    /**
+     * Returns a copy of this token, as produced by a macro call at `callSite`
+     * whose definition contains this token.
+     */
+    expandedBy(callSite?: SourceLocation): Token {
+        const loc = this.loc && new SourceLocation(
+            this.loc.lexer, this.loc.start, this.loc.end, callSite);
+        const token = new Token(this.text, loc);
+        token.noexpand = this.noexpand;
+        token.treatAsRelax = this.treatAsRelax;
+        return token;
+    }
+
     /**
      * Given a pair of tokens (this and endToken), compute a `Token` encompassing
      * the whole input range enclosed by these two.
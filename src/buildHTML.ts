@@ -258,6 +258,16 @@ export const buildGroup = function(
         // $FlowFixMe
         let groupNode: HtmlDomNode = groupBuilders[group.type](group, options);
 
+        // Remember which group (and, with the sourceRanges setting, where in
+        // the input) this node came from.  Builders that return a node built
+        // for one of their children keep the child's (more precise) origin.
+        if (!groupNode.parseNode) {
+            groupNode.parseNode = group;
+        }
+        if (options.sourceRanges && group.loc && !groupNode.loc) {
+            groupNode.loc = group.loc;
+        }
+
         // If the size changed between the parent and the current group, account
         // for that size difference.
         if (baseOptions && options.size !== baseOptions.size) {
@@ -310,10 +320,12 @@ function buildHTMLUnbreakable(children, options) {
 export default function buildHTML(tree: AnyParseNode[], options: Options): DomSpan {
     // Strip off outer tag wrapper for processing below.
     let tag : null | AnyParseNode[] = null;
+    let label : undefined | string;
     if (tree.length === 1) {
         let item = tree[0];
         if (item.type === "tag") {
             tag = item.tag;
+            label = item.label;
             tree = item.body;
         }
     }
@@ -321,6 +333,15 @@ export default function buildHTML(tree: AnyParseNode[], options: Options): DomSp
     // Build the expression contained in the tree
     const expression = buildExpression(tree, options, true);
 
+    // Environments that number their rows, like {align}, end with a column of
+    // the rows' tags when they are the whole display, which goes with the tag
+    // of the expression.
+    const root = tree.length === 1 ? tree[0] : null;
+    let tagColumn : HtmlDomNode | undefined;
+    if (root && root.type === "array" && root.tagColumn) {
+        tagColumn = expression.pop();
+    }
+
     const children : HtmlDomNode[] = [];
 
     // Create one base node for each chunk between potential line breaks.
@@ -376,8 +397,15 @@ export default function buildHTML(tree: AnyParseNode[], options: Options): DomSp
             , options
         );
         tagChild.classes = ["tag"];
+        if (label != null) {
+            // The target of \ref{label}.
+            tagChild.setAttribute("id", utils.labelId(label));
+        }
         children.push(tagChild);
     }
+    if (tagColumn) {
+        children.push(tagColumn);
+    }
 
     const htmlNode = makeSpan(["katex-html"], children);
     htmlNode.setAttribute("aria-hidden", "true");
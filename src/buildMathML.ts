@@ -115,6 +115,24 @@ export const getVariant = function(
     return null;
 };
 
+/**
+ * Sets the color of a MathML node, in its `mathcolor` or `mathbackground`
+ * attribute.  A theme color (see `Settings.colorMap`) is a CSS var(), which
+ * those attributes don't evaluate, so it is set as a style instead.
+ */
+export const setColor = function(
+    node: MathNode,
+    attribute: "mathcolor" | "mathbackground",
+    color: string,
+) {
+    if (/^var\(/.test(color)) {
+        node.style[attribute === "mathcolor" ? "color" : "backgroundColor"] =
+            color;
+    } else {
+        node.setAttribute(attribute, color);
+    }
+};
+
 /**
  * Takes a list of nodes, builds them, and returns a list of the generated
  * MathML nodes.  Also combine consecutive <mtext> outputs into a single
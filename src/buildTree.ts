@@ -13,6 +13,8 @@ const optionsFromSettings = function(settings: Settings) {
     return new Options({
         style: (settings.displayMode ? Style.DISPLAY : Style.TEXT),
         maxSize: settings.maxSize,
+        leqno: settings.leqno,
+        sourceRanges: settings.sourceRanges,
     });
 };
 
@@ -0,0 +1,188 @@
+// @flow
+
+/**
+ * Colors as in the xcolor package: color models for \definecolor, and color
+ * expressions mixing colors, like `red!30!blue`.  Colors are resolved at parse
+ * time into CSS colors.  Colors defined by \definecolor and \colorlet are kept
+ * in macros named `\color@name`, so are scoped like macros.
+ */
+
+type RGB = [number, number, number];
+
+// The base colors of xcolor, which are always defined.
+const baseColors: {[name: string]: RGB} = {
+    "red": [1, 0, 0],
+    "green": [0, 1, 0],
+    "blue": [0, 0, 1],
+    "brown": [0.75, 0.5, 0.25],
+    "lime": [0.75, 1, 0],
+    "orange": [1, 0.5, 0],
+    "pink": [1, 0.75, 0.75],
+    "purple": [0.75, 0, 0.25],
+    "teal": [0, 0.5, 0.5],
+    "violet": [0.5, 0, 0.5],
+    "cyan": [0, 1, 1],
+    "magenta": [1, 0, 1],
+    "yellow": [1, 1, 0],
+    "olive": [0.5, 0.5, 0],
+    "black": [0, 0, 0],
+    "darkgray": [0.25, 0.25, 0.25],
+    "gray": [0.5, 0.5, 0.5],
+    "lightgray": [0.75, 0.75, 0.75],
+    "white": [1, 1, 1],
+};
+
+/**
+ * The name of the macro holding the color `name` defined by \definecolor or
+ * \colorlet.
+ */
+export const colorMacro = function(name: string): string {
+    return "\\color@" + name;
+};
+
+const toHex = function(rgb: RGB): string {
+    return "#" + rgb.map(component => {
+        const hex = Math.round(component * 255).toString(16);
+        return hex.length < 2 ? "0" + hex : hex;
+    }).join("");
+};
+
+const fromHex = function(hex: string): RGB | null {
+    let digits: string[];
+    const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+    if (match) {
+        digits = match.slice(1);
+    } else {
+        const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(hex);
+        if (!short) {
+            return null;
+        }
+        digits = short.slice(1).map(digit => digit + digit);
+    }
+    return [
+        parseInt(digits[0], 16) / 255,
+        parseInt(digits[1], 16) / 255,
+        parseInt(digits[2], 16) / 255,
+    ];
+};
+
+// The numbers of a color specification, separated by commas or spaces.
+const specNumbers = function(spec: string, count: number): number[] | null {
+    const parts = spec.trim().split(/\s*,\s*|\s+/);
+    if (parts.length !== count ||
+            !parts.every(part => /^(\d+\.?\d*|\.\d+)$/.test(part))) {
+        return null;
+    }
+    return parts.map(part => parseFloat(part));
+};
+
+const inUnitRange = function(numbers: number[] | null): boolean {
+    return !!numbers && numbers.every(number => number <= 1);
+};
+
+/**
+ * Convert a color specification `spec` in the color model `model` (`rgb`,
+ * `RGB`, `HTML`, `gray` or `cmyk`), as given to \definecolor, into a CSS
+ * color.  Returns `null` if the model is unknown or the specification is
+ * invalid.
+ */
+export const parseColorSpec = function(
+    model: string,
+    spec: string,
+): string | null {
+    switch (model.trim()) {
+        case "rgb": {
+            const rgb = specNumbers(spec, 3);
+            return rgb && inUnitRange(rgb) ? toHex(rgb as RGB) : null;
+        }
+        case "RGB": {
+            const rgb = specNumbers(spec, 3);
+            if (!rgb || !rgb.every(n => n <= 255 && Number.isInteger(n))) {
+                return null;
+            }
+            return toHex(rgb.map(n => n / 255) as RGB);
+        }
+        case "HTML": {
+            const rgb = /^[0-9a-f]{6}$/i.test(spec.trim()) &&
+                fromHex(spec.trim());
+            return rgb ? toHex(rgb) : null;
+        }
+        case "gray": {
+            const gray = specNumbers(spec, 1);
+            return gray && inUnitRange(gray) ?
+                toHex([gray[0], gray[0], gray[0]]) : null;
+        }
+        case "cmyk": {
+            const cmyk = specNumbers(spec, 4);
+            if (!cmyk || !inUnitRange(cmyk)) {
+                return null;
+            }
+            const k = cmyk[3];
+            return toHex(cmyk.slice(0, 3).map(n => 1 - Math.min(1, n + k)) as
+                RGB);
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Resolve a color expression into a CSS color, looking up the colors defined
+ * by \definecolor and \colorlet with `lookup`, or return `null` if it isn't
+ * valid.  Expressions are either
+ *  - a color: a defined or base color name, or `#rgb`, `#rrggbb` or `rrggbb`,
+ *  - or a mixture, as in xcolor: `c!p` is p% of the color c and the rest
+ *    white, `c1!p!c2` is p% of c1 and the rest c2, and further `!p!c`s mix
+ *    the result so far with more colors, e.g. `red!30!blue!50` is
+ *    `red!30!blue` mixed half and half with white.
+ * Names that aren't defined or base colors, such as other CSS colors, can't
+ * be mixed, and are passed on as they are.
+ */
+export const resolveColor = function(
+    expression: string,
+    lookup: (macroName: string) => string | void,
+): string | null {
+    const color = function(name: string): RGB | null {
+        const defined = lookup(colorMacro(name));
+        if (defined) {
+            return fromHex(defined);
+        }
+        return baseColors.hasOwnProperty(name) ?
+            baseColors[name] : fromHex(name);
+    };
+
+    const parts = expression.trim().split("!");
+    if (parts.length === 1) {
+        const name = parts[0];
+        if (/^(#[a-f0-9]{3}|#?[a-f0-9]{6})$/i.test(name)) {
+            // We allow a 6-digit HTML color spec without a leading "#".
+            // This follows the xcolor package's HTML color model.
+            return name[0] === "#" ? name : "#" + name;
+        }
+        const defined = lookup(colorMacro(name));
+        if (defined) {
+            return defined;
+        }
+        if (baseColors.hasOwnProperty(name)) {
+            // As defined by xcolor, which differs from CSS for some.
+            return toHex(baseColors[name]);
+        }
+        return /^[a-z]+$/i.test(name) ? name : null;
+    }
+
+    let mix = color(parts[0]);
+    for (let i = 1; mix && i < parts.length; i += 2) {
+        if (!/^(\d+\.?\d*|\.\d+)$/.test(parts[i])) {
+            return null;
+        }
+        const percent = parseFloat(parts[i]);
+        const other = i + 1 < parts.length ? color(parts[i + 1]) : [1, 1, 1];
+        if (percent > 100 || !other) {
+            return null;
+        }
+        const current = mix;
+        mix = current.map((component, j) =>
+            (percent * component + (100 - percent) * other[j]) / 100) as RGB;
+    }
+    return mix && toHex(mix);
+};
@@ -2,7 +2,7 @@
 import {checkNodeType, supsub} from "./parseNode";
 
 import Parser from "./Parser";
-import{ParseNode, AnyParseNode, NodeType} from "./parseNode";
+import{ParseNode, AnyParseNode, NodeType, color, error} from "./parseNode";
 import Options from "./Options";
 import{ArgType, BreakToken, Mode} from "./types";
 import{HtmlDomNode} from "./domTree";
@@ -17,11 +17,14 @@ export type FunctionContext = {
     breakOnTokenText?: BreakToken,
 };
 
+// Handlers may return an error node (see `Parser.recover`) instead of `T`
+// when recovering from errors, and the error text of an untrusted command
+// (see `Parser.formatUntrustedCmd`).
 export type FunctionHandler<T extends AnyParseNode> = (
     context: FunctionContext,
     args: AnyParseNode[],
     optArgs: (null | AnyParseNode)[],
-) => T;
+) => T | error | color;
 
 export type HtmlBuilder<T extends AnyParseNode> = (nd : T, o:Options) => HtmlDomNode;
 export type MathMLBuilder<T extends AnyParseNode> = (
@@ -15,7 +15,9 @@ import { scriptFromCodepoint } from "./unicodeScripts";
 import utils from "./utils";
 import svgGeometry from "./svgGeometry";
 import Options from "./Options";
-import { DocumentFragment } from "./tree";
+import SourceLocation from "./SourceLocation";
+import { DocumentFragment, childKeys } from "./tree";
+import { AnyParseNode } from "./parseNode";
 
 import { VirtualNode } from "./tree";
 
@@ -28,6 +30,129 @@ export const createClass = function (classes: string[]): string {
     return classes.filter(cls => cls).join(" ");
 };
 
+/**
+ * Create data attributes recording the range of the input that a node was
+ * built from, so that rendered elements can be mapped back to the source.
+ * Nodes built from a macro expansion are mapped to the macro call.  Only
+ * nodes built with the sourceRanges setting have a `loc`.
+ */
+export const sourceAttributes = function (
+    loc?: SourceLocation,
+): { [k: string]: string } {
+    if (!loc) {
+        return {};
+    }
+    loc = loc.callSite();
+    return {
+        "data-source-start": String(loc.start),
+        "data-source-end": String(loc.end),
+    };
+};
+
+export type SourceRange = {start: number, end: number};
+
+/**
+ * Find the range of the input recorded on a rendered element or its nearest
+ * ancestor by `sourceAttributes`, or `null` if there is none.
+ */
+export const sourceRangeOfElement = function (
+    element: Element | null,
+): SourceRange | null {
+    const node = element && element.closest("[data-source-start]");
+    if (!node) {
+        return null;
+    }
+    return {
+        start: Number(node.getAttribute("data-source-start")),
+        end: Number(node.getAttribute("data-source-end")),
+    };
+};
+
+/**
+ * Callbacks invoked with the parse node an element was built from, e.g. the
+ * `onAtomClick` prop of `Math`.  Only the innermost atom receives an event.
+ * `onAtomSelect` is called when a mouse selection ends, for the innermost atom
+ * containing the whole selection.
+ */
+export type AtomCallback = (
+    node: AnyParseNode,
+    range: SourceRange | null,
+    event: React.SyntheticEvent,
+) => void;
+
+export type AtomHandlers = {
+    onAtomClick?: AtomCallback;
+    onAtomDoubleClick?: AtomCallback;
+    onAtomHover?: AtomCallback;
+    onAtomSelect?: AtomCallback;
+};
+
+/**
+ * React elements to render in place of `\reactslot{name}`, by name.
+ */
+export type SlotMap = {[name: string]: React.ReactNode};
+
+/**
+ * Extra data that `toReact` passes down to the children of a node.
+ */
+export type ToReactOptions = AtomHandlers & {
+    slots?: SlotMap;
+};
+
+// Native events already reported to an atom callback, so that ancestors of the
+// innermost atom don't report them again as they bubble up.
+const reportedEvents: WeakSet<Event> = new WeakSet();
+
+/**
+ * Whether the element handling an event contains the whole of the (non-empty)
+ * selection of its document.
+ */
+const containsSelection = function (event: React.SyntheticEvent): boolean {
+    const element = event.currentTarget as Element;
+    const selection = element.ownerDocument.getSelection();
+    return !!selection && !selection.isCollapsed &&
+        element.contains(selection.anchorNode) &&
+        element.contains(selection.focusNode);
+};
+
+/**
+ * Create the React event props which report events on an element to the
+ * given atom callbacks.
+ */
+const atomEventProps = function (
+    parseNode?: AnyParseNode,
+    handlers?: AtomHandlers,
+): { [k: string]: (event: React.SyntheticEvent) => void } {
+    const props = {};
+    if (!parseNode || !handlers) {
+        return props;
+    }
+    const loc = parseNode.loc && parseNode.loc.callSite();
+    const range = loc ? {start: loc.start, end: loc.end} : null;
+    const wire = (
+        prop: string,
+        callback?: AtomCallback,
+        applies?: (event: React.SyntheticEvent) => boolean,
+    ) => {
+        if (callback) {
+            props[prop] = (event: React.SyntheticEvent) => {
+                if (reportedEvents.has(event.nativeEvent) ||
+                    (applies && !applies(event))) {
+                    return;
+                }
+                reportedEvents.add(event.nativeEvent);
+                callback(parseNode, range, event);
+            };
+        }
+    };
+    wire("onClick", handlers.onAtomClick);
+    wire("onDoubleClick", handlers.onAtomDoubleClick);
+    wire("onMouseOver", handlers.onAtomHover);
+    // Left to an ancestor unless the atom contains the whole selection.
+    wire("onMouseUp", handlers.onAtomSelect, containsSelection);
+    return props;
+};
+
 const initNode = function (
     classes?: string[],
     options?: Options,
@@ -50,14 +175,82 @@ const initNode = function (
     }
 };
 
-const toReact = function (tagName: string, key?) {
+// The properties whose numbers React leaves without a unit, as its
+// `isUnitlessNumber`.  They may also have a vendor prefix.
+const unitlessProperties = new Set([
+    "animationIterationCount", "aspectRatio", "borderImageOutset",
+    "borderImageSlice", "borderImageWidth", "boxFlex", "boxFlexGroup",
+    "boxOrdinalGroup", "columnCount", "columns", "flex", "flexGrow",
+    "flexPositive", "flexShrink", "flexNegative", "flexOrder", "gridArea",
+    "gridRow", "gridRowEnd", "gridRowSpan", "gridRowStart", "gridColumn",
+    "gridColumnEnd", "gridColumnSpan", "gridColumnStart", "fontWeight",
+    "lineClamp", "lineHeight", "opacity", "order", "orphans", "tabSize",
+    "widows", "zIndex", "zoom", "fillOpacity", "floodOpacity", "stopOpacity",
+    "strokeDasharray", "strokeDashoffset", "strokeMiterlimit", "strokeOpacity",
+    "strokeWidth",
+]);
+
+const isUnitless = function(name: string): boolean {
+    if (name.slice(0, 2) === "--") {
+        return true;
+    }
+    const match = /^(?:Webkit|Moz|ms|O)([A-Z].*)$/.exec(name);
+    return unitlessProperties.has(match ?
+        match[1][0].toLowerCase() + match[1].slice(1) : name);
+};
+
+/**
+ * Serialize inline styles the way React does when rendering to a string:
+ * hyphenated names, `px` added to non-zero numbers except for unitless
+ * properties, empty values left out and no trailing semicolon.  This keeps
+ * `toMarkup` identical to the server rendering of `toReact`, so either can be
+ * hydrated.
+ */
+export const styleMarkup = function (style: React.CSSProperties): string {
+    const styles: string[] = [];
+    for (const name in style) {
+        if (style.hasOwnProperty(name)) {
+            const value = style[name];
+            if (value == null || typeof value === "boolean" || value === "") {
+                continue;
+            }
+            const text = typeof value === "number" && value !== 0 &&
+                    !isUnitless(name)
+                ? value + "px"
+                : String(value).trim();
+            styles.push(`${utils.hyphenate(name)}:${text}`);
+        }
+    }
+    return styles.join(";");
+};
+
+/**
+ * Serialize attributes, leaving out those which React would not render.
+ */
+export const attributeMarkup = function (
+    attributes: { [k: string]: any },
+): string {
+    let markup = "";
+    for (const attr in attributes) {
+        if (attributes.hasOwnProperty(attr) && attributes[attr] != null) {
+            markup += ` ${attr}="${utils.escape(String(attributes[attr]))}"`;
+        }
+    }
+    return markup;
+};
+
+// NOTE: Props are given in the same order as `toMarkup` writes attributes.
+const toReact = function (tagName: string, key?, reactOptions?: ToReactOptions) {
     let Tag = tagName;
+    const keys = childKeys(this.children);
     return React.createElement(tagName,{
-        style: {...this.style} || {},
-        className: createClass(this.classes || []),
+        className: createClass(this.classes || []) || undefined,
+        style: {...this.style},
         key,
+        ...sourceAttributes(this.loc),
+        ...atomEventProps(this.parseNode, reactOptions),
         ...this.attributes,
-        children: this.children.map((x,i) => x.toReact(i))
+        children: this.children.map((x,i) => x.toReact(keys[i], reactOptions))
     });
 }
 
@@ -79,9 +272,10 @@ const toNode = function (tagName: string): HTMLElement {
     }
 
     // Apply attributes
-    for (const attr in this.attributes) {
-        if (this.attributes.hasOwnProperty(attr)) {
-            node.setAttribute(attr, this.attributes[attr]);
+    const attributes = {...sourceAttributes(this.loc), ...this.attributes};
+    for (const attr in attributes) {
+        if (attributes.hasOwnProperty(attr)) {
+            node.setAttribute(attr, attributes[attr]);
         }
     }
 
@@ -100,29 +294,20 @@ const toMarkup = function (tagName: string): string {
     let markup = `<${tagName}`;
 
     // Add the class
-    if (this.classes.length) {
-        markup += ` class="${utils.escape(createClass(this.classes))}"`;
+    const className = createClass(this.classes);
+    if (className) {
+        markup += ` class="${utils.escape(className)}"`;
     }
 
-    let styles = "";
-
     // Add the styles, after hyphenation
-    for (const style in this.style) {
-        if (this.style.hasOwnProperty(style)) {
-            styles += `${utils.hyphenate(style)}:${this.style[style]};`;
-        }
-    }
-
+    const styles = styleMarkup(this.style);
     if (styles) {
         markup += ` style="${utils.escape(styles)}"`;
     }
 
     // Add the attributes
-    for (const attr in this.attributes) {
-        if (this.attributes.hasOwnProperty(attr)) {
-            markup += ` ${attr}="${utils.escape(this.attributes[attr])}"`;
-        }
-    }
+    markup += attributeMarkup(
+        {...sourceAttributes(this.loc), ...this.attributes});
 
     markup += ">";
 
@@ -142,8 +327,11 @@ export interface HtmlDomNode extends VirtualNode {
     depth: number;
     maxFontSize: number;
     style: React.CSSProperties;
+    loc?: SourceLocation;    // The input this node was built from, recorded
+                             // with the sourceRanges setting.
+    parseNode?: AnyParseNode;   // The parse node this node was built for.
     hasClass(className: string): boolean;
-    toReact(key?:number|string);
+    toReact(key?:number|string, reactOptions?: ToReactOptions);
 }
 
 // Span wrapping other DOM nodes.
@@ -173,6 +361,8 @@ export class Span<ChildType extends VirtualNode> implements HtmlDomNode {
     width?: number;
     maxFontSize: number;
     style: React.CSSProperties;
+    loc?: SourceLocation;
+    parseNode?: AnyParseNode;
 
     constructor(
         classes?: string[],
@@ -205,7 +395,9 @@ export class Span<ChildType extends VirtualNode> implements HtmlDomNode {
         return toMarkup.call(this, "span");
     }
 
-    toReact(k?) {return toReact.call(this, "span", k);}
+    toReact(k?, reactOptions?: ToReactOptions) {
+        return toReact.call(this, "span", k, reactOptions);
+    }
 }
 
 /**
@@ -220,6 +412,8 @@ export class Anchor implements HtmlDomNode {
     depth: number;
     maxFontSize: number;
     style: React.CSSProperties;
+    loc?: SourceLocation;
+    parseNode?: AnyParseNode;
 
     constructor(
         href: string,
@@ -247,7 +441,9 @@ export class Anchor implements HtmlDomNode {
     toMarkup(): string {
         return toMarkup.call(this, "a");
     }
-    toReact(k?) {return toReact.call(this, "a", k);}
+    toReact(k?, reactOptions?: ToReactOptions) {
+        return toReact.call(this, "a", k, reactOptions);
+    }
 }
 
 /**
@@ -261,6 +457,8 @@ export class Img implements VirtualNode {
     depth: number;
     maxFontSize: number;
     style: React.CSSProperties;
+    loc?: SourceLocation;
+    parseNode?: AnyParseNode;
 
     constructor(
         src: string,
@@ -295,25 +493,107 @@ export class Img implements VirtualNode {
     }
 
     toMarkup(): string {
-        let markup = `<img  src='${this.src} 'alt='${this.alt}' `;
+        let markup = `<img src="${utils.escape(this.src)}"` +
+            ` alt="${utils.escape(this.alt)}"` +
+            ` class="${utils.escape(createClass(this.classes))}"`;
 
         // Add the styles, after hyphenation
-        let styles = "";
-        for (const style in this.style) {
-            if (this.style.hasOwnProperty(style)) {
-                styles += `${utils.hyphenate(style)}:${this.style[style]};`;
-            }
-        }
+        const styles = styleMarkup(this.style);
         if (styles) {
             markup += ` style="${utils.escape(styles)}"`;
         }
 
-        markup += "'/>";
+        markup += attributeMarkup(sourceAttributes(this.loc));
+        markup += "/>";
         return markup;
     }
 
-    toReact(k?) {
-        return <img src={this.src} alt={this.alt} style={this.style} key={k}/>;
+    toReact(k?, reactOptions?: ToReactOptions) {
+        return <img
+            src={this.src}
+            alt={this.alt}
+            className={createClass(this.classes)}
+            style={this.style}
+            {...sourceAttributes(this.loc)}
+            {...atomEventProps(this.parseNode, reactOptions)}
+            key={k}
+        />;
+    }
+}
+
+/**
+ * This node reserves room for a React element supplied at render time through
+ * the `slots` of `toReact` (see `\reactslot`). The slot's size must be known
+ * up front so that surrounding layout can be computed; the element is placed
+ * in a box of that size.
+ */
+export class Slot implements HtmlDomNode {
+    name: string;
+    classes: string[];
+    height: number;
+    depth: number;
+    width: number;
+    maxFontSize: number;
+    style: React.CSSProperties;
+    loc?: SourceLocation;
+    parseNode?: AnyParseNode;
+
+    constructor(
+        name: string,
+        height: number,
+        depth: number,
+        width: number,
+        options: Options,
+    ) {
+        this.name = name;
+        this.classes = ["mord", "reactslot"];
+        this.height = height;
+        this.depth = depth;
+        this.width = width;
+        this.maxFontSize = options.sizeMultiplier;
+        this.style = {
+            display: "inline-block",
+            height: height + depth + "em",
+            verticalAlign: -depth + "em",
+        };
+        if (width > 0) {
+            this.style.width = width + "em";
+        }
+    }
+
+    hasClass(className: string): boolean {
+        return utils.contains(this.classes, className);
+    }
+
+    /**
+     * Outside of React the slot can't be filled, so these render an empty box
+     * of the right size, marked with the slot's name.
+     */
+    toNode(): HTMLElement {
+        const span = new Span(this.classes, [], undefined, this.style);
+        span.setAttribute("data-slot", this.name);
+        span.loc = this.loc;
+        return span.toNode();
+    }
+
+    toMarkup(): string {
+        const span = new Span(this.classes, [], undefined, this.style);
+        span.setAttribute("data-slot", this.name);
+        span.loc = this.loc;
+        return span.toMarkup();
+    }
+
+    toReact(k?, reactOptions?: ToReactOptions) {
+        const slots = (reactOptions && reactOptions.slots) || {};
+        // Attributes are in the same order as in `toMarkup`.
+        return <span
+            key={k}
+            className={createClass(this.classes)}
+            style={{...this.style}}
+            {...sourceAttributes(this.loc)}
+            data-slot={this.name}
+            {...atomEventProps(this.parseNode, reactOptions)}
+        >{slots[this.name]}</span>;
     }
 }
 
@@ -340,6 +620,8 @@ export class SymbolNode implements HtmlDomNode {
     maxFontSize: number;
     classes: string[];
     style: React.CSSProperties;
+    loc?: SourceLocation;
+    parseNode?: AnyParseNode;
 
     constructor(
         text: string,
@@ -400,6 +682,14 @@ export class SymbolNode implements HtmlDomNode {
             span.className = createClass(this.classes);
         }
 
+        const attributes = sourceAttributes(this.loc);
+        for (const attr in attributes) {
+            if (attributes.hasOwnProperty(attr)) {
+                span = span || document.createElement("span");
+                span.setAttribute(attr, attributes[attr]);
+            }
+        }
+
         for (const style in this.style) {
             if (this.style.hasOwnProperty(style)) {
                 span = span || document.createElement("span");
@@ -417,59 +707,68 @@ export class SymbolNode implements HtmlDomNode {
     }
 
     /**
-     * Creates markup for a symbol node.
+     * Whether the symbol has to be wrapped in a span, to carry its classes,
+     * styles, italic correction or (with the sourceRanges setting) source
+     * location.
      */
-    toMarkup(): string {
-        // TODO(alpert): More duplication than I'd like from
-        // span.prototype.toMarkup and symbolNode.prototype.toNode...
-        let needsSpan = false;
+    needsSpan(): boolean {
+        return this.classes.length > 0 ||
+            Object.getOwnPropertyNames(this.style).length > 0 ||
+            this.italic > 0 ||
+            !!this.loc;
+    }
 
-        let markup = "<span";
+    /**
+     * The inline styles of the wrapping span, including italic correction.
+     */
+    spanStyle(): React.CSSProperties {
+        if (this.italic > 0) {
+            return {marginRight: this.italic + "em", ...this.style};
+        }
+        return {...this.style};
+    }
 
-        if (this.classes.length) {
-            needsSpan = true;
-            markup += " class=\"";
-            markup += utils.escape(createClass(this.classes));
-            markup += "\"";
+    /**
+     * Creates markup for a symbol node.
+     */
+    toMarkup(): string {
+        const escaped = utils.escape(this.text);
+        if (!this.needsSpan()) {
+            return escaped;
         }
 
-        let styles = "";
+        let markup = "<span";
 
-        if (this.italic > 0) {
-            styles += "margin-right:" + this.italic + "em;";
-        }
-        for (const style in this.style) {
-            if (this.style.hasOwnProperty(style)) {
-                styles += utils.hyphenate(style) + ":" + this.style[style] + ";";
-            }
+        const className = createClass(this.classes);
+        if (className) {
+            markup += ` class="${utils.escape(className)}"`;
         }
 
+        const styles = styleMarkup(this.spanStyle());
         if (styles) {
-            needsSpan = true;
-            markup += " style=\"" + utils.escape(styles) + "\"";
+            markup += ` style="${utils.escape(styles)}"`;
         }
 
-        const escaped = utils.escape(this.text);
-        if (needsSpan) {
-            markup += ">";
-            markup += escaped;
-            markup += "</span>";
-            return markup;
-        } else {
-            return escaped;
-        }
+        markup += attributeMarkup(sourceAttributes(this.loc));
+
+        markup += ">";
+        markup += escaped;
+        markup += "</span>";
+        return markup;
     }
-    toReact(k?) {
-        const escaped = utils.escape(this.text);
-        if (this.classes.length || Object.getOwnPropertyNames(this.style).length || this.italic > 0) {
-            let styles = {...this.style};
-            if (this.italic > 0) {
-                styles.marginRight = this.italic + "em";
-            }
-            return <span style={styles} className={createClass(this.classes)} key={k}>{escaped}</span>
+
+    toReact(k?, reactOptions?: ToReactOptions) {
+        if (this.needsSpan()) {
+            return <span
+                className={createClass(this.classes) || undefined}
+                style={this.spanStyle()}
+                {...sourceAttributes(this.loc)}
+                {...atomEventProps(this.parseNode, reactOptions)}
+                key={k}
+            >{this.text}</span>;
         }
         else {
-            return <>{escaped}</>
+            return <React.Fragment key={k}>{this.text}</React.Fragment>
         }
     }
 }
@@ -507,11 +806,7 @@ export class SvgNode implements VirtualNode {
         let markup = "<svg";
 
         // Apply attributes
-        for (const attr in this.attributes) {
-            if (Object.prototype.hasOwnProperty.call(this.attributes, attr)) {
-                markup += ` ${attr}='${this.attributes[attr]}'`;
-            }
-        }
+        markup += attributeMarkup(this.attributes);
 
         markup += ">";
 
@@ -525,7 +820,8 @@ export class SvgNode implements VirtualNode {
 
     }
     toReact(k?)  {
-        return <svg key={k} {...this.attributes}>{this.children.map((x,i) => x.toReact(i))}</svg>
+        const keys = childKeys(this.children);
+        return <svg key={k} {...this.attributes}>{this.children.map((x,i) => x.toReact(keys[i]))}</svg>
     }
 }
 
@@ -552,11 +848,8 @@ export class PathNode implements VirtualNode {
     }
 
     toMarkup(): string {
-        if (this.alternate) {
-            return `<path d='${this.alternate}'/>`;
-        } else {
-            return `<path d='${svgGeometry.path[this.pathName]}'/>`;
-        }
+        const d = this.alternate || svgGeometry.path[this.pathName];
+        return `<path d="${utils.escape(d)}"></path>`;
     }
 
     toReact(k?) {
@@ -588,18 +881,23 @@ export class LineNode implements VirtualNode {
     toMarkup(): string {
         let markup = "<line";
 
-        for (const attr in this.attributes) {
-            if (Object.prototype.hasOwnProperty.call(this.attributes, attr)) {
-                markup += ` ${attr}='${this.attributes[attr]}'`;
-            }
-        }
+        markup += attributeMarkup(this.attributes);
 
-        markup += "/>";
+        markup += "></line>";
 
         return markup;
     }
     toReact(k?){
-        return <line key={k} {...this.attributes}/>
+        // React expects camelCased SVG props such as strokeWidth, and renders
+        // them back as the hyphenated attributes toMarkup() produces.
+        const props: { [k: string]: string } = {};
+        for (const attr in this.attributes) {
+            if (Object.prototype.hasOwnProperty.call(this.attributes, attr)) {
+                props[attr.replace(/-([a-z])/g, (m, c) => c.toUpperCase())] =
+                    this.attributes[attr];
+            }
+        }
+        return <line key={k} {...props}/>
     }
 }
 
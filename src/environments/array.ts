@@ -4,18 +4,23 @@ import defineEnvironment from "../defineEnvironment";
 import defineFunction from "../defineFunction";
 import mathMLTree from "../mathMLTree";
 import ParseError from "../ParseError";
-import {assertNodeType, assertSymbolNodeType, array, ordgroup, text} from "../parseNode";
+import {assertNodeType, assertSymbolNodeType, array, multicolumn, ordgroup, text} from "../parseNode";
 import {checkNodeType, checkSymbolNodeType} from "../parseNode";
+import {Token} from "../Token";
+import {parseCD} from "./cd";
 import {calculateSize, Measurement} from "../units";
 import utils from "../utils";
 
 import * as html from "../buildHTML";
 import * as mml from "../buildMathML";
 
+import Options from "../Options";
 import Parser from "../Parser";
 import{ParseNode, AnyParseNode} from "../parseNode";
 import{StyleStr} from "../types";
 import{HtmlBuilder, MathMLBuilder} from "../defineFunction";
+import{VListElemAndShift} from "../buildCommon";
+import{DomSpan, HtmlDomNode} from "../domTree";
 
 // Data stored in the ParseNode associated with the environment.
 export type AlignSpec = { type: "separator", separator: string } | {
@@ -25,26 +30,125 @@ export type AlignSpec = { type: "separator", separator: string } | {
     postgap?: number,
 };
 
-function getHLines(parser: Parser): boolean[] {
+// How the columns (or rows) of an environment are laid out, where that differs
+// from an {array}.
+export type ColSeparationType = "multline" | "CD";
+
+// A rule under columns `start` to `end` only, counting from 1, as made by
+// \cline{start-end}.
+export type CLine = {
+    start: number,
+    end: number,
+};
+
+// The specification of a column for a character of a column specification
+// such as {array}'s argument.
+function alignSpec(ca: string, loc: AnyParseNode | Token): AlignSpec {
+    if ("lcr".indexOf(ca) !== -1) {
+        return {
+            type: "align",
+            align: ca,
+        };
+    } else if (ca === "|") {
+        return {
+            type: "separator",
+            separator: "|",
+        };
+    } else if (ca === ":") {
+        return {
+            type: "separator",
+            separator: ":",
+        };
+    }
+    throw new ParseError("Unknown column alignment: " + ca, loc);
+}
+
+function getHLines(parser: Parser, clines: CLine[]): boolean[] {
     // Return an array. The array length = number of hlines.
     // Each element in the array tells if the line is dashed.
+    // Any \cline's among them are added to `clines`.
     const hlineInfo : boolean[] = [];
     parser.consumeSpaces();
     let nxt = parser.nextToken.text;
-    while (nxt === "\\hline" || nxt === "\\hdashline") {
+    while (nxt === "\\hline" || nxt === "\\hdashline" || nxt === "\\cline") {
         parser.consume();
-        hlineInfo.push(nxt === "\\hdashline");
+        if (nxt === "\\cline") {
+            const arg = parser.parseStringGroup("text", false)!;
+            const match = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(arg.text);
+            if (!match || +match[1] < 1 || +match[2] < +match[1]) {
+                throw new ParseError(
+                    "Invalid \\cline argument: " + arg.text, arg);
+            }
+            clines.push({start: +match[1], end: +match[2]});
+        } else {
+            hlineInfo.push(nxt === "\\hdashline");
+        }
         parser.consumeSpaces();
         nxt = parser.nextToken.text;
     }
     return hlineInfo;
 }
 
+// Parses \multicolumn{n}{spec}{content} at the start of a cell, returning the
+// cell without its content, and the content.
+function getMulticolumn(parser: Parser): [multicolumn, AnyParseNode[]] {
+    const token = parser.nextToken;
+    parser.consume();
+    parser.consumeSpaces();
+    const count = parser.parseStringGroup("raw", false, true)!.text;
+    const span = parseInt(count);
+    if (!/^\s*\d+\s*$/.test(count) || span < 1) {
+        throw new ParseError(
+            "Invalid \\multicolumn column count: " + count, token);
+    }
+    parser.consumeSpaces();
+    const spec = parser.parseStringGroup("raw", false, true)!.text
+        .replace(/\s/g, "");
+    const cols = spec.split("").map(ca => alignSpec(ca, token));
+    if (cols.filter(col => col.type === "align").length !== 1) {
+        throw new ParseError(
+            "\\multicolumn needs exactly one column alignment, got " + spec,
+            token);
+    }
+    parser.consumeSpaces();
+    const content = parser.parseGroup("\\multicolumn");
+    if (!content) {
+        throw new ParseError(
+            "Expected group after '\\multicolumn'", parser.nextToken);
+    }
+    return [{
+        type: "multicolumn",
+        mode: parser.mode,
+        loc: token.loc,
+        span,
+        cols,
+        body: content,
+    }, content.type === "ordgroup" ? content.body : [content]];
+}
+
 interface cols {
     hskipBeforeAndAfter?: boolean,
     addJot?: boolean,
     cols?: AlignSpec[],
     arraystretch?: number,
+    colSeparationType?: ColSeparationType,
+    // Whether rows are numbered, unless marked by \notag: if it's given at
+    // all, each row can be tagged by \tag.
+    autoTag?: boolean,
+    singleRow?: boolean,
+    maxNumCols?: number,
+    // The number of columns of the column specification, past which a
+    // \multicolumn can't span.
+    specNumCols?: number,
+}
+
+// The macros recording the \tag, \notag and \label of the current equation.
+const equationMacros =
+    ["\\df@tag", "\\df@tag@ref", "\\df@notag", "\\df@label"];
+
+// Marks the current equation as unnumbered, as \notag does.
+function notag(parser: Parser) {
+    parser.gullet.macros.set("\\df@notag", {tokens: [], numArgs: 0}, true);
 }
 
 /**
@@ -55,7 +159,10 @@ interface cols {
  */
 function parseArray(
     parser: Parser,
-    {hskipBeforeAndAfter, addJot, cols, arraystretch}: cols,
+    {
+        hskipBeforeAndAfter, addJot, cols, arraystretch, colSeparationType,
+        autoTag, singleRow, maxNumCols, specNumCols,
+    }: cols,
     style: StyleStr,
 ): array {
     // Parse body of array with \\ temporarily mapped to \cr
@@ -76,16 +183,64 @@ function parseArray(
         }
     }
 
+    const numCols = specNumCols || maxNumCols;
     let row : AnyParseNode[] = [];
     const body = [row];
-    const rowGaps : Measurement[] = [];
+    const rowGaps : (Measurement | null)[] = [];
     const hLinesBeforeRow : boolean[][] = [];
+    const cLinesBeforeRow : CLine[][] = [];
+    const getLines = () => {
+        const clines: CLine[] = [];
+        hLinesBeforeRow.push(getHLines(parser, clines));
+        cLinesBeforeRow.push(clines);
+    };
+
+    // Rows that can be tagged get the tag given by \tag, or else the next
+    // equation number if they are numbered.
+    const tags: AnyParseNode[][] | undefined = autoTag == null ? undefined : [];
+    const labels: (string | null)[] = [];
+    const clearEquation = () => {
+        for (const name of equationMacros) {
+            parser.gullet.macros.set(name, undefined, true);
+        }
+    };
+    const endRow = () => {
+        if (!tags) {
+            return;
+        }
+        if (autoTag) {
+            parser.numberEquation();
+        }
+        if (parser.gullet.macros.get("\\df@tag")) {
+            const label = parser.labelEquation();
+            tags.push(parser.subparse([new Token("\\df@tag")]));
+            labels.push(label == null ? null : label);
+        } else {
+            parser.reportUnnumberedLabel();
+            tags.push([]);
+            labels.push(null);
+        }
+        clearEquation();
+    };
 
     // Test for \hline at the top of the array.
-    hLinesBeforeRow.push(getHLines(parser));
+    getLines();
 
     while (true) {  // eslint-disable-line no-constant-condition
-        let cell_body = parser.parseExpression(false, "\\cr");
+        // A cell starting with \multicolumn spans several columns.
+        parser.consumeSpaces();
+        let multicolumn : multicolumn | null = null;
+        let cell_body : AnyParseNode[] = [];
+        if (parser.nextToken.text === "\\multicolumn") {
+            const token = parser.nextToken;
+            [multicolumn, cell_body] = getMulticolumn(parser);
+            if (numCols && rowWidth(row) + multicolumn.span > numCols) {
+                throw new ParseError(
+                    "\\multicolumn spans more columns than are left in " +
+                    "the row", token);
+            }
+        }
+        cell_body = cell_body.concat(parser.parseExpression(false, "\\cr"));
         let cell : AnyParseNode = {
             type: "ordgroup",
             mode: parser.mode,
@@ -99,29 +254,51 @@ function parseArray(
                 body: [cell],
             };
         }
+        if (multicolumn) {
+            multicolumn.body = cell;
+            cell = multicolumn;
+        }
         row.push(cell);
         const next = parser.nextToken.text;
         if (next === "&") {
+            if (maxNumCols && row.length === maxNumCols) {
+                throw new ParseError("Too many tab characters: &",
+                                     parser.nextToken);
+            }
             parser.consume();
-        } else if (next === "\\end") {
+        } else if (next === "\\end" || parser.settings.errorRecovery) {
+            // When recovering from errors, anything else ends the array too,
+            // and \begin recovers from the missing \end.
             // Arrays terminate newlines with `\crcr` which consumes a `\cr` if
-            // the last line is empty.
+            // the last line is empty.  A numbered environment keeps its only
+            // row even if it's empty, as that is still an equation.
             // NOTE: Currently, `cell` is the last item added into `row`.
             if (row.length === 1 && cell.type === "styling" &&
                 //@ts-ignore
-                cell.body[0].body.length === 0) {
+                cell.body[0].body.length === 0 &&
+                (body.length > 1 || !tags)) {
                 body.pop();
+                if (tags) {
+                    clearEquation();
+                }
+            } else {
+                endRow();
             }
             if (hLinesBeforeRow.length < body.length + 1) {
                 hLinesBeforeRow.push([]);
+                cLinesBeforeRow.push([]);
             }
             break;
         } else if (next === "\\cr") {
+            if (singleRow) {
+                throw new ParseError("Misplaced \\cr", parser.nextToken);
+            }
+            endRow();
             const cr = assertNodeType(parser.parseFunction()!, "cr");
             rowGaps.push(cr.size);
 
             // check for \hline(s) following the row separator
-            hLinesBeforeRow.push(getHLines(parser));
+            getLines();
 
             row = [];
             body.push(row);
@@ -131,6 +308,10 @@ function parseArray(
         }
     }
     parser.gullet.endGroup();
+    if (tags) {
+        // The rows are numbered separately, so the display as a whole isn't.
+        notag(parser);
+    }
     return {
         type: "array",
         mode: parser.mode,
@@ -141,10 +322,36 @@ function parseArray(
         rowGaps,
         hskipBeforeAndAfter,
         hLinesBeforeRow,
+        cLinesBeforeRow: cLinesBeforeRow.some(clines => clines.length > 0) ?
+            cLinesBeforeRow : undefined,
+        colSeparationType,
+        tags,
+        labels: tags && labels,
     };
 }
 
 
+// Decides whether the rows of an environment are numbered, or can be tagged by
+// \tag at all (see `autoTag`): {align}, {alignat} and {gather} number their
+// rows, their starred forms don't, and other environments leave \tag to
+// apply to the whole expression.
+function getAutoTag(envName: string): boolean | undefined {
+    const name = envName.replace(/\*$/, "");
+    if (utils.contains(["align", "alignat", "gather"], name)) {
+        return name === envName;
+    }
+    return undefined;
+}
+
+// The top-level display environments of amsmath are allowed only in display
+// mode, where they make up the whole display.
+function validateDisplayEnvironment(context) {
+    if (!context.parser.settings.displayMode) {
+        throw new ParseError(
+            `{${context.envName}} can be used only in display mode.`);
+    }
+}
+
 // Decides on a style for cells in an array according to whether the given
 // environment name starts with the letter 'd'.
 function dCellStyle(envName): StyleStr {
@@ -155,6 +362,15 @@ function dCellStyle(envName): StyleStr {
     }
 }
 
+// In {multline}, the first line is set flush left and the last flush right,
+// while any others are centered.
+function multlineAlign(r: number, nr: number): "left" | "right" | null {
+    if (nr === 1) {
+        return null;
+    }
+    return r === 0 ? "left" : r === nr - 1 ? "right" : null;
+}
+
 type Outrow = any [] & {
     // [idx: number]: *,
     height: number,
@@ -162,6 +378,292 @@ type Outrow = any [] & {
     pos: number,
 };
 
+const isMulticolumn = function(cell: AnyParseNode): boolean {
+    return cell.type === "multicolumn";
+};
+
+// The number of columns that the cells of a row span.
+const rowWidth = function(row: AnyParseNode[]): number {
+    let width = 0;
+    for (const cell of row) {
+        width += cell.type === "multicolumn" ? cell.span : 1;
+    }
+    return width;
+};
+
+// A column of an array, or what goes between columns: the space before or
+// after a column (`column` being its index) or between separators, or a
+// separator following column `after` (-1 before the first column).
+type ColumnPart =
+    | {type: "gap", width: number, column: number | null}
+    | {type: "separator", dashed: boolean, after: number}
+    | {type: "column", index: number, align: string};
+
+/**
+ * Lays out `nc` columns of an array from left to right, with the spaces and
+ * separators around them, as given by the array's column specification.
+ */
+const columnParts = function(
+    group: array,
+    nc: number,
+    arraycolsep: number,
+    options: Options,
+): ColumnPart[] {
+    const colDescriptions = group.cols || [];
+    const parts: ColumnPart[] = [];
+    let c;
+    let colDescrNum;
+    for (c = 0, colDescrNum = 0;
+         // Continue while either there are more columns or more column
+         // descriptions, so trailing separators don't get lost.
+         c < nc || colDescrNum < colDescriptions.length;
+         ++c, ++colDescrNum) {
+
+        let colDescr: AlignSpec | undefined = colDescriptions[colDescrNum];
+
+        let firstSeparator = true;
+        while (colDescr && colDescr.type === "separator") {
+            // If there is more than one separator in a row, add a space
+            // between them.
+            if (!firstSeparator) {
+                parts.push({
+                    type: "gap",
+                    width: options.fontMetrics().doubleRuleSep,
+                    column: null,
+                });
+            }
+
+            if (colDescr.separator !== "|" && colDescr.separator !== ":") {
+                throw new ParseError(
+                    "Invalid separator type: " + colDescr.separator);
+            }
+            parts.push({
+                type: "separator",
+                dashed: colDescr.separator === ":",
+                after: c - 1,
+            });
+
+            colDescrNum++;
+            colDescr = colDescriptions[colDescrNum];
+            firstSeparator = false;
+        }
+
+        if (c >= nc) {
+            continue;
+        }
+
+        const spec = colDescr && colDescr.type === "align" ? colDescr : null;
+        if (c > 0 || group.hskipBeforeAndAfter) {
+            const width = utils.deflt(spec ? spec.pregap : undefined,
+                arraycolsep);
+            if (width !== 0) {
+                parts.push({type: "gap", width, column: c});
+            }
+        }
+        parts.push({type: "column", index: c, align: spec ? spec.align : "c"});
+        if (c < nc - 1 || group.hskipBeforeAndAfter) {
+            const width = utils.deflt(spec ? spec.postgap : undefined,
+                arraycolsep);
+            if (width !== 0) {
+                parts.push({type: "gap", width, column: c});
+            }
+        }
+    }
+    return parts;
+};
+
+type GridLayout = {
+    rows: Outrow[],
+    nc: number,
+    offset: number,
+    totalHeight: number,
+    hlines: {pos: number, isDashed: boolean}[],
+    gapPos: number[],
+};
+
+const gridJustify = {l: "start", c: "center", r: "end"};
+
+// The CSS border for the separators `specs` on one side of a \multicolumn.
+const multicolumnRule = function(
+    specs: AlignSpec[],
+    options: Options,
+): string | undefined {
+    if (specs.length === 0) {
+        return undefined;
+    }
+    const dashed = specs.some(spec =>
+        spec.type === "separator" && spec.separator === ":");
+    if (specs.length > 1) {
+        return (0.1 + options.fontMetrics().doubleRuleSep) + "em double";
+    }
+    return "0.05em " + (dashed ? "dashed" : "solid");
+};
+
+/**
+ * Lays out an array with cells spanning several columns (\multicolumn) or
+ * rules under some columns only (\cline) as a CSS grid, as their widths
+ * depend on those of the columns, which only the browser knows.  The `parts`
+ * of the columns are the grid's tracks, and the rows are positioned
+ * vertically as in `htmlBuilder`, all in one grid row.
+ */
+const gridBuilder = function(
+    group: array,
+    options: Options,
+    parts: ColumnPart[],
+    {rows, nc, offset, totalHeight, hlines, gapPos}: GridLayout,
+): DomSpan {
+    const nr = group.body.length;
+    const tracks: string[] = [];
+    // The tracks of each column, counting from 1 like grid lines: the first
+    // and last of it with the spaces around it, and that of its content.
+    const colFirst: number[] = [];
+    const colLast: number[] = [];
+    const colContent: number[] = [];
+    const colAlign: string[] = [];
+    const separators: {track: number, dashed: boolean, after: number}[] = [];
+    for (const part of parts) {
+        tracks.push(part.type === "gap" ? part.width + "em" : "auto");
+        const track = tracks.length;
+        if (part.type === "separator") {
+            separators.push({track, dashed: part.dashed, after: part.after});
+            continue;
+        }
+        const column = part.type === "gap" ? part.column : part.index;
+        if (column === null) {
+            continue;
+        }
+        if (colFirst[column] === undefined) {
+            colFirst[column] = track;
+        }
+        colLast[column] = track;
+        if (part.type === "column") {
+            colContent[column] = track;
+            colAlign[column] = part.align;
+        }
+    }
+
+    const items: HtmlDomNode[] = [];
+    const place = (item: HtmlDomNode, first: number, last: number,
+                   top: number) => {
+        item.style.gridRow = "1";
+        item.style.gridColumn = first + " / " + (last + 1);
+        item.style.alignSelf = "start";
+        item.style.marginTop = top + "em";
+        items.push(item);
+    };
+    // The rows span from the start of the gap before them to the start of
+    // the gap after them, with the last one reaching the bottom.
+    const bandTop = (r: number) => gapPos[r];
+    const bandBottom = (r: number) => r + 1 < nr ? gapPos[r + 1] : totalHeight;
+
+    // The grid's baseline is that of its first item, so start with an empty
+    // item reaching down to the array's baseline.
+    const baseline = buildCommon.makeSpan([], []);
+    baseline.style.height = offset + "em";
+    place(baseline, 1, 1, 0);
+
+    // Which columns a \multicolumn spans in each row, so that separators
+    // between and after them are left out, as their own are used instead.
+    const spans: {first: number, last: number}[][] = [];
+    for (let r = 0; r < nr; r++) {
+        const row = rows[r];
+        spans.push([]);
+        let col = 0;
+        group.body[r].forEach((cell, i) => {
+            if (col >= nc) {
+                return;
+            }
+            const first = col;
+            const last = cell.type === "multicolumn" ?
+                Math.min(col + cell.span, nc) - 1 : col;
+            col = last + 1;
+
+            const elem = row[i];
+            elem.height = row.height;
+            elem.depth = row.depth;
+            const vlist = buildCommon.makeVList({
+                positionType: "individualShift",
+                children: [{type: "elem", elem, shift: 0}],
+            }, options);
+            let align = colAlign[first];
+            if (cell.type === "multicolumn") {
+                spans[r].push({first, last});
+                const alignIndex =
+                    cell.cols.findIndex(spec => spec.type === "align");
+                const alignSpec = cell.cols[alignIndex];
+                if (alignSpec.type === "align") {
+                    align = alignSpec.align;
+                }
+                // The cell's own separators, as borders of its whole band.
+                // Those before it only count in the first column.
+                const before = first === 0 ?
+                    cell.cols.slice(0, alignIndex) : [];
+                const after = cell.cols.slice(alignIndex + 1);
+                if (before.length > 0 || after.length > 0) {
+                    const band = buildCommon.makeSpan([], []);
+                    band.style.height = (bandBottom(r) - bandTop(r)) + "em";
+                    band.style.borderLeft = multicolumnRule(before, options);
+                    band.style.borderRight = multicolumnRule(after, options);
+                    place(band, colFirst[first], colLast[last], bandTop(r));
+                }
+            }
+            vlist.style.justifySelf = gridJustify[align];
+            place(vlist, colContent[first], colContent[last],
+                  row.pos - row.height);
+        });
+    }
+
+    // Separators run down the rows, except where a \multicolumn covers them.
+    for (const separator of separators) {
+        const covered = (r: number) => spans[r].some(({first, last}) =>
+            (first <= separator.after && separator.after <= last) ||
+            (first === 0 && separator.after === -1));
+        let r = 0;
+        while (r < nr) {
+            if (covered(r)) {
+                r++;
+                continue;
+            }
+            const start = r;
+            while (r < nr && !covered(r)) {
+                r++;
+            }
+            const rule = buildCommon.makeSpan(
+                separator.dashed ? ["vertical-separator", "vs-dashed"] :
+                    ["vertical-separator"], [], options);
+            rule.style.height = (bandBottom(r - 1) - bandTop(start)) + "em";
+            place(rule, separator.track, separator.track, bandTop(start));
+        }
+    }
+
+    // Rules across all columns, or only some of them for \cline.
+    for (const hline of hlines) {
+        const line = buildCommon.makeLineSpan(
+            hline.isDashed ? "hdashline" : "hline", options, 0.05);
+        place(line, 1, tracks.length, hline.pos - line.height);
+    }
+    (group.cLinesBeforeRow || []).forEach((clines, r) => {
+        for (const cline of clines) {
+            const first = cline.start - 1;
+            const last = Math.min(cline.end, nc) - 1;
+            if (first > last) {
+                continue;
+            }
+            const line = buildCommon.makeLineSpan("hline", options, 0.05);
+            place(line, colFirst[first], colLast[last],
+                  gapPos[r] - line.height);
+        }
+    });
+
+    const table = buildCommon.makeSpan(["mtable"], items);
+    table.style.display = "inline-grid";
+    table.style.gridTemplateColumns = tracks.join(" ");
+    table.style.gridTemplateRows = totalHeight + "em";
+    table.height = offset;
+    table.depth = totalHeight - offset;
+    return table;
+};
+
 const htmlBuilder: HtmlBuilder<array> = function(group, options) {
     let r;
     let c;
@@ -176,7 +678,9 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
     const arraycolsep = 5 * pt; // \arraycolsep in article.cls
 
     // Vertical spacing
-    const baselineskip = 12 * pt; // see size10.clo
+    const baselineskip = group.colSeparationType === "CD"
+        ? calculateSize({number: 3, unit: "ex"}, options) // amscd's spacing
+        : 12 * pt; // see size10.clo
     // Default \jot from ltmath.dtx
     // TODO(edemaine): allow overriding \jot via \setlength (#687)
     const jot = 3 * pt;
@@ -185,9 +689,12 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
     const arstrutDepth = 0.3 * arrayskip;  // \@arstrutbox in lttab.dtx
 
     let totalHeight = 0;
+    // Where each gap between rows (and before and after them) starts.
+    const gapPos : number[] = [];
 
     // Set a position for \hline(s) at the top of the array, if any.
     function setHLinePos(hlinesInGap: boolean[]) {
+        gapPos.push(totalHeight);
         for (let i = 0; i < hlinesInGap.length; ++i) {
             if (i > 0) {
                 totalHeight += 0.25;
@@ -202,13 +709,15 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
         let height = arstrutHeight; // \@array adds an \@arstrut
         let depth = arstrutDepth;   // to each tow (via the template)
 
-        if (nc < inrow.length) {
-            nc = inrow.length;
+        if (nc < rowWidth(inrow)) {
+            nc = rowWidth(inrow);
         }
 
         const outrow: Outrow = (new Array(inrow.length) as any);
         for (c = 0; c < inrow.length; ++c) {
-            const elt = html.buildGroup(inrow[c], options);
+            const cell = inrow[c];
+            const elt = html.buildGroup(
+                cell.type === "multicolumn" ? cell.body : cell, options);
             if (depth < elt.depth) {
                 depth = elt.depth;
             }
@@ -249,71 +758,39 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
     }
 
     const offset = totalHeight / 2 + options.fontMetrics().axisHeight;
-    const colDescriptions = group.cols || [];
+    const rows: Outrow[] = body;
+    const parts = columnParts(group, nc, arraycolsep, options);
+    if (group.cLinesBeforeRow ||
+            group.body.some(row => row.some(isMulticolumn))) {
+        const table = gridBuilder(group, options, parts,
+            {rows, nc, offset, totalHeight, hlines, gapPos});
+        return withTagColumn(group, table, rows, offset, options);
+    }
+
     const cols : any[] = [];
     let colSep;
-    let colDescrNum;
-    for (c = 0, colDescrNum = 0;
-         // Continue while either there are more columns or more column
-         // descriptions, so trailing separators don't get lost.
-         c < nc || colDescrNum < colDescriptions.length;
-         ++c, ++colDescrNum) {
-
-        let colDescr = colDescriptions[colDescrNum] || {};
-
-        let firstSeparator = true;
-        while (colDescr.type === "separator") {
-            // If there is more than one separator in a row, add a space
-            // between them.
-            if (!firstSeparator) {
-                colSep = buildCommon.makeSpan(["arraycolsep"], []);
-                colSep.style.width =
-                    options.fontMetrics().doubleRuleSep + "em";
-                cols.push(colSep);
-            }
+    for (const part of parts) {
+        if (part.type === "gap") {
+            colSep = buildCommon.makeSpan(["arraycolsep"], []);
+            colSep.style.width = part.width + "em";
+            cols.push(colSep);
+            continue;
+        }
 
-            if (colDescr.separator === "|") {
-                const separator = buildCommon.makeSpan(
+        if (part.type === "separator") {
+            const separator = buildCommon.makeSpan(
+                part.dashed ? ["vertical-separator", "vs-dashed"] :
                     ["vertical-separator"], [], options
-                );
-                separator.style.height = totalHeight + "em";
-                separator.style.verticalAlign =
-                    -(totalHeight - offset) + "em";
-
-                cols.push(separator);
-            } else if (colDescr.separator === ":") {
-                const separator = buildCommon.makeSpan(
-                    ["vertical-separator", "vs-dashed"], [], options
-                );
-                separator.style.height = totalHeight + "em";
-                separator.style.verticalAlign =
-                    -(totalHeight - offset) + "em";
-
-                cols.push(separator);
-            } else {
-                throw new ParseError(
-                    "Invalid separator type: " + colDescr.separator);
-            }
+            );
+            separator.style.height = totalHeight + "em";
+            separator.style.verticalAlign =
+                -(totalHeight - offset) + "em";
 
-            colDescrNum++;
-            colDescr = colDescriptions[colDescrNum] || {};
-            firstSeparator = false;
-        }
-
-        if (c >= nc) {
+            cols.push(separator);
             continue;
         }
 
-        let sepwidth;
-        if (c > 0 || group.hskipBeforeAndAfter) {
-            sepwidth = utils.deflt(colDescr.pregap, arraycolsep);
-            if (sepwidth !== 0) {
-                colSep = buildCommon.makeSpan(["arraycolsep"], []);
-                colSep.style.width = sepwidth + "em";
-                cols.push(colSep);
-            }
-        }
-
+        c = part.index;
         let col : any = [];
         for (r = 0; r < nr; ++r) {
             const row = body[r];
@@ -324,26 +801,22 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
             const shift = row.pos - offset;
             elem.depth = row.depth;
             elem.height = row.height;
-            col.push({type: "elem", elem: elem, shift: shift});
+            const rowAlign = group.colSeparationType === "multline" &&
+                multlineAlign(r, nr);
+            col.push({
+                type: "elem",
+                elem: elem,
+                shift: shift,
+                wrapperStyle: rowAlign ? {textAlign: rowAlign} : undefined,
+            });
         }
 
         col = buildCommon.makeVList({
             positionType: "individualShift",
             children: col,
         }, options);
-        col = buildCommon.makeSpan(
-            ["col-align-" + (colDescr.align || "c")],
-            [col]);
+        col = buildCommon.makeSpan(["col-align-" + part.align], [col]);
         cols.push(col);
-
-        if (c < nc - 1 || group.hskipBeforeAndAfter) {
-            sepwidth = utils.deflt(colDescr.postgap, arraycolsep);
-            if (sepwidth !== 0) {
-                colSep = buildCommon.makeSpan(["arraycolsep"], []);
-                colSep.style.width = sepwidth + "em";
-                cols.push(colSep);
-            }
-        }
     }
     body = buildCommon.makeSpan(["mtable"], cols);
 
@@ -367,24 +840,168 @@ const htmlBuilder: HtmlBuilder<array> = function(group, options) {
         }, options);
     }
 
-    return buildCommon.makeSpan(["mord"], [body], options);
+    return withTagColumn(group, body, rows, offset, options);
+};
+
+/**
+ * Finishes the HTML of an array, whose rows have been laid out as `rows` in
+ * `table`, by adding the column of the rows' tags, if any.
+ */
+const withTagColumn = function(
+    group: array,
+    table: HtmlDomNode,
+    rows: Outrow[],
+    offset: number,
+    options: Options,
+): HtmlDomNode {
+    const body = buildCommon.makeSpan(["mord"], [table], options);
+
+    // Tags of rows go in a column of their own, which buildHTML sets against
+    // the edge of the display like the tag of a whole expression.
+    if (group.tagColumn && group.tags &&
+            group.tags.some(tag => tag.length > 0)) {
+        const tagElems: VListElemAndShift[] = [];
+        for (let r = 0; r < rows.length; ++r) {
+            const outrow = rows[r];
+            const tag = group.tags[r];
+            const label = group.labels && group.labels[r];
+            if (!tag || tag.length === 0) {
+                continue;
+            }
+            const elem = buildCommon.makeSpan(
+                [], html.buildExpression(tag, options, true), options);
+            if (label != null) {
+                // The target of \ref{label}.
+                elem.setAttribute("id", utils.labelId(label));
+            }
+            elem.height = outrow.height;
+            elem.depth = outrow.depth;
+            tagElems.push({type: "elem", elem, shift: outrow.pos - offset});
+        }
+        // Set tags of different widths flush against the edge of the display.
+        const tagList = buildCommon.makeVList({
+            positionType: "individualShift",
+            children: tagElems,
+        }, options);
+        tagList.style.textAlign = options.leqno ? "left" : "right";
+        const tagColumn = buildCommon.makeSpan(["tag"], [tagList], options);
+        return buildCommon.makeFragment([body, tagColumn]);
+    }
+
+    return body;
 };
 
+const mathmlAlign = {l: "left", c: "center", r: "right"};
+
 const mathmlBuilder: MathMLBuilder<array> = function(group, options) {
-    return new mathMLTree.MathNode(
-        "mtable", group.body.map(function(row) {
-            return new mathMLTree.MathNode(
-                "mtr", row.map(function(cell) {
-                    return new mathMLTree.MathNode(
-                        "mtd", [mml.buildGroup(cell, options)]);
-                }));
+    const table = new mathMLTree.MathNode(
+        "mtable", group.body.map(function(row, r) {
+            const cells = row.map(function(cell) {
+                if (cell.type === "multicolumn") {
+                    const mtd = new mathMLTree.MathNode(
+                        "mtd", [mml.buildGroup(cell.body, options)]);
+                    mtd.setAttribute("columnspan", String(cell.span));
+                    for (const spec of cell.cols) {
+                        if (spec.type === "align") {
+                            mtd.setAttribute(
+                                "columnalign", mathmlAlign[spec.align]);
+                        }
+                    }
+                    return mtd;
+                }
+                return new mathMLTree.MathNode(
+                    "mtd", [mml.buildGroup(cell, options)]);
+            });
+            // A tagged row is an <mlabeledtr>, whose first cell is the tag.
+            const tag = group.tags && group.tags[r];
+            const mtr = tag && tag.length > 0 ?
+                new mathMLTree.MathNode("mlabeledtr", [
+                    new mathMLTree.MathNode(
+                        "mtd", [mml.buildExpressionRow(tag, options)]),
+                    ...cells,
+                ]) :
+                new mathMLTree.MathNode("mtr", cells);
+            const rowAlign = group.colSeparationType === "multline" &&
+                multlineAlign(r, group.body.length);
+            if (rowAlign) {
+                mtr.setAttribute("columnalign", rowAlign);
+            }
+            return mtr;
         }));
+    if (group.tags) {
+        table.setAttribute("side", options.leqno ? "left" : "right");
+    }
+    if (group.colSeparationType === "CD") {
+        table.setAttribute("columnspacing", "0.5em");
+    }
+
+    // Rules between columns and rows.  Rules under only some columns (\cline)
+    // have no equivalent in MathML, so are left out.
+    const cols = group.cols || [];
+    let columnLines = "";
+    let prevTypeWasAlign = false;
+    let iStart = 0;
+    let iEnd = cols.length;
+    while (iStart < iEnd && cols[iStart].type === "separator") {
+        iStart++;
+    }
+    while (iEnd > iStart && cols[iEnd - 1].type === "separator") {
+        iEnd--;
+    }
+    for (let i = iStart; i < iEnd; i++) {
+        const col = cols[i];
+        if (col.type === "align") {
+            if (prevTypeWasAlign) {
+                columnLines += "none ";
+            }
+            prevTypeWasAlign = true;
+        } else if (prevTypeWasAlign) {
+            columnLines += col.separator === ":" ? "dashed " : "solid ";
+            prevTypeWasAlign = false;
+        }
+    }
+    if (/[sd]/.test(columnLines)) {
+        table.setAttribute("columnlines", columnLines.trim());
+    }
+    const hLines = group.hLinesBeforeRow;
+    const rowLines = hLines.slice(1, hLines.length - 1).map(lines =>
+        lines.length === 0 ? "none" : lines[0] ? "dashed" : "solid");
+    if (rowLines.some(line => line !== "none")) {
+        table.setAttribute("rowlines", rowLines.join(" "));
+    }
+
+    // Rules around the array go on an <menclose>.
+    const notation: string[] = [];
+    if (iStart > 0) {
+        notation.push("left");
+    }
+    if (iEnd < cols.length) {
+        notation.push("right");
+    }
+    if (hLines[0].length > 0) {
+        notation.push("top");
+    }
+    if (hLines[hLines.length - 1].length > 0) {
+        notation.push("bottom");
+    }
+    if (notation.length > 0) {
+        const menclose = new mathMLTree.MathNode("menclose", [table]);
+        menclose.setAttribute("notation", notation.join(" "));
+        return menclose;
+    }
+    return table;
 };
 
-// Convenience function for aligned and alignedat environments.
+// Convenience function for the align and aligned families of environments.
 const alignedHandler = function(context, args) {
     const cols : any[] = [];
-    const res = parseArray(context.parser, {cols, addJot: true}, "display");
+    const res = parseArray(context.parser, {
+        cols,
+        addJot: true,
+        autoTag: getAutoTag(context.envName),
+        // {split} has one alignment point per line.
+        maxNumCols: context.envName === "split" ? 2 : undefined,
+    }, "display");
 
     // Determining number of columns.
     // 1. If the first argument is given, we use it as a number of columns,
@@ -415,8 +1032,11 @@ const alignedHandler = function(context, args) {
     const isAligned = !numCols;
     res.body.forEach(function(row) {
         for (let i = 1; i < row.length; i += 2) {
-            // Modify ordgroup node within styling node
-            const styling = assertNodeType(row[i], "styling");
+            // Modify ordgroup node within styling node (or within the cell
+            // of a \multicolumn).
+            const cell = row[i];
+            const styling = assertNodeType(
+                cell.type === "multicolumn" ? cell.body : cell, "styling");
             const ordgroup = assertNodeType(styling.body[0], "ordgroup");
             ordgroup.body.unshift(emptyGroup);
         }
@@ -473,29 +1093,12 @@ defineEnvironment({
         const colalign: AnyParseNode[] =
             symNode ? [args[0]] : assertNodeType(args[0], "ordgroup").body;
         const cols = colalign.map(function(nde) : AlignSpec {
-            const node = assertSymbolNodeType(nde);
-            const ca = node.text;
-            if ("lcr".indexOf(ca) !== -1) {
-                return {
-                    type: "align",
-                    align: ca,
-                };
-            } else if (ca === "|") {
-                return {
-                    type: "separator",
-                    separator: "|",
-                };
-            } else if (ca === ":") {
-                return {
-                    type: "separator",
-                    separator: ":",
-                };
-            }
-            throw new ParseError("Unknown column alignment: " + ca, nde);
+            return alignSpec(assertSymbolNodeType(nde).text, nde);
         });
         const res : cols = {
             cols,
             hskipBeforeAndAfter: true, // \@preamble in lttab.dtx
+            specNumCols: cols.filter(col => col.type === "align").length,
         };
         return parseArray(context.parser, res, dCellStyle(context.envName));
     },
@@ -607,20 +1210,25 @@ defineEnvironment({
 
 // A gathered environment is like an array environment with one centered
 // column, but where rows are considered lines so get \jot line spacing
-// and contents are set in \displaystyle.
+// and contents are set in \displaystyle.  The {gather} environment is the
+// same at the top level of a display, with numbered rows.
 defineEnvironment({
     type: "array",
-    names: ["gathered"],
+    names: ["gathered", "gather", "gather*"],
     props: {
         numArgs: 0,
     },
     handler(context) {
+        if (context.envName !== "gathered") {
+            validateDisplayEnvironment(context);
+        }
         const res : cols = {
             cols: [{
                 type: "align",
                 align: "c",
             }],
             addJot: true,
+            autoTag: getAutoTag(context.envName),
         };
         return parseArray(context.parser, res, "display");
     },
@@ -628,27 +1236,111 @@ defineEnvironment({
     mathmlBuilder,
 });
 
+// The align environments are like aligned at the top level of a display, with
+// numbered rows.  A {split} within an {equation} is like {aligned}, but with
+// only one alignment point per line.
+defineEnvironment({
+    type: "array",
+    names: ["align", "align*", "split"],
+    props: {
+        numArgs: 0,
+    },
+    handler(context, args) {
+        validateDisplayEnvironment(context);
+        return alignedHandler(context, args);
+    },
+    htmlBuilder,
+    mathmlBuilder,
+});
+
+// An {equation} is a single numbered line, and a {multline} a single numbered
+// equation broken over several lines.  They take the number of the whole
+// display, as given by \tag or else the next equation number; their starred
+// forms are unnumbered.
+defineEnvironment({
+    type: "array",
+    names: ["equation", "equation*", "multline", "multline*"],
+    props: {
+        numArgs: 0,
+    },
+    handler(context) {
+        validateDisplayEnvironment(context);
+        const isMultline = context.envName.indexOf("multline") === 0;
+        const res = parseArray(context.parser, {
+            cols: [{
+                type: "align",
+                align: "c",
+            }],
+            addJot: isMultline,
+            colSeparationType: isMultline ? "multline" : undefined,
+            singleRow: !isMultline,
+            maxNumCols: 1,
+        }, "display");
+        if (context.envName.indexOf("*") === -1) {
+            context.parser.numberEquation();
+        } else {
+            notag(context.parser);
+        }
+        return res;
+    },
+    htmlBuilder,
+    mathmlBuilder,
+});
+
 // alignat environment is like an align environment, but one must explicitly
 // specify maximum number of columns in each row, and can adjust spacing between
-// each columns.
+// each columns.  {alignedat} is the same within math mode, like {aligned}.
 defineEnvironment({
     type: "array",
-    names: ["alignedat"],
-    // One for numbered and for unnumbered;
-    // but, KaTeX doesn't supports math numbering yet,
-    // they make no difference for now.
+    names: ["alignedat", "alignat", "alignat*"],
     props: {
         numArgs: 1,
     },
-    handler: alignedHandler,
+    handler(context, args) {
+        if (context.envName !== "alignedat") {
+            validateDisplayEnvironment(context);
+        }
+        return alignedHandler(context, args);
+    },
+    htmlBuilder,
+    mathmlBuilder,
+});
+
+// The commutative diagrams of amscd, laid out as an array of objects and
+// arrows.
+defineEnvironment({
+    type: "array",
+    names: ["CD"],
+    props: {
+        numArgs: 0,
+    },
+    handler(context) {
+        return parseCD(context.parser);
+    },
     htmlBuilder,
     mathmlBuilder,
 });
 
+// \multicolumn is parsed by parseArray at the start of a cell (see
+// getMulticolumn), and is an error anywhere else.
+defineFunction<text>({
+    type: "text", // Doesn't matter what this is.
+    names: ["\\multicolumn"],
+    props: {
+        numArgs: 0,
+        allowedInText: true,
+        allowedInMath: true,
+    },
+    handler(context, args) {
+        throw new ParseError(
+            "\\multicolumn valid only at the start of an array cell");
+    },
+});
+
 // Catch \hline outside array environment
 defineFunction<text>({
     type: "text", // Doesn't matter what this is.
-    names: ["\\hline", "\\hdashline"],
+    names: ["\\hline", "\\hdashline", "\\cline"],
     props: {
         numArgs: 0,
         allowedInText: true,
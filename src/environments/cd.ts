@@ -0,0 +1,281 @@
+// @flow
+import buildCommon from "../buildCommon";
+import defineFunction from "../defineFunction";
+import mathMLTree from "../mathMLTree";
+import ParseError from "../ParseError";
+import {assertNodeType, assertSymbolNodeType} from "../parseNode";
+
+import * as html from "../buildHTML";
+import * as mml from "../buildMathML";
+
+import Parser from "../Parser";
+import{AnyParseNode, array, cdlabel, cdlabelparent, ordgroup, styling}
+    from "../parseNode";
+import{AlignSpec} from "./array";
+
+// The {CD} environment of amscd.  Arrows are written inline, after @:
+//   @>a>b>  @<a<b<  a right or left arrow, labelled a above and b below
+//   @VaVbV  @AaAbA  a down or up arrow, labelled a on the left, b on the right
+//   @=  @|          a horizontal or vertical equals sign
+//   @.              nothing, in place of a vertical arrow
+// Everything else in a row makes up the objects between the arrows.
+
+const cdArrowFunctionName = {
+    ">": "\\\\cdrightarrow",
+    "<": "\\\\cdleftarrow",
+    "=": "\\\\cdlongequal",
+    "A": "\\uparrow",
+    "V": "\\downarrow",
+    "|": "\\Vert",
+    ".": "no arrow",
+};
+
+// Cells are built like those of parseArray, which CD diagrams are typeset as,
+// always in display style.
+const newCell = function(): styling {
+    return {type: "styling", mode: "math", style: "display", body: []};
+};
+
+const emptyGroup = function(): ordgroup {
+    return {type: "ordgroup", mode: "math", body: []};
+};
+
+const isStartOfArrow = function(node: AnyParseNode): boolean {
+    return node.type === "textord" && node.text === "@";
+};
+
+const isLabelEnd = function(node: AnyParseNode, endChar: string): boolean {
+    return (node.type === "mathord" || node.type === "atom") &&
+        node.text === endChar;
+};
+
+/**
+ * Returns the parse tree of an arrow with its labels, much as if it had been
+ * written out with the functions above.
+ */
+function cdArrow(
+    arrowChar: string,
+    labels: ordgroup[],
+    parser: Parser,
+): AnyParseNode {
+    const funcName = cdArrowFunctionName[arrowChar];
+    switch (funcName) {
+        case "\\\\cdrightarrow":
+        case "\\\\cdleftarrow":
+            return parser.callFunction(funcName, [labels[0]], [labels[1]]);
+        case "\\uparrow":
+        case "\\downarrow": {
+            const leftLabel =
+                parser.callFunction("\\\\cdleft", [labels[0]], []);
+            const bareArrow: AnyParseNode = {
+                type: "atom",
+                mode: "math",
+                family: "rel",
+                text: funcName,
+            };
+            const sizedArrow = parser.callFunction("\\Big", [bareArrow], []);
+            const rightLabel =
+                parser.callFunction("\\\\cdright", [labels[1]], []);
+            const arrowGroup: ordgroup = {
+                type: "ordgroup",
+                mode: "math",
+                body: [leftLabel, sizedArrow, rightLabel],
+            };
+            return parser.callFunction("\\\\cdparent", [arrowGroup], []);
+        }
+        case "\\\\cdlongequal":
+            return parser.callFunction(funcName, [emptyGroup()], [null]);
+        case "\\Vert": {
+            const arrow: AnyParseNode =
+                {type: "textord", mode: "math", text: "\\Vert"};
+            return parser.callFunction("\\Big", [arrow], []);
+        }
+        default:
+            return emptyGroup();
+    }
+}
+
+/**
+ * Parses the body of a {CD} environment into an array, whose even rows hold
+ * objects and horizontal arrows, and whose odd rows hold vertical arrows
+ * lined up with the objects.
+ */
+export function parseCD(parser: Parser): array {
+    // Parse the rows with \\ temporarily mapped to \cr, as in parseArray.
+    parser.gullet.beginGroup();
+    parser.gullet.macros.set("\\\\", "\\cr");
+    const parsedRows: AnyParseNode[][] = [];
+    while (true) {  // eslint-disable-line no-constant-condition
+        parsedRows.push(parser.parseExpression(false, "\\cr"));
+        const next = parser.nextToken.text;
+        if (next === "\\cr") {
+            assertNodeType(parser.parseFunction()!, "cr");
+        } else if (next === "\\end") {
+            if (parsedRows[parsedRows.length - 1].length === 0) {
+                parsedRows.pop(); // The last row ended with \\.
+            }
+            break;
+        } else {
+            throw new ParseError("Expected \\\\ or \\cr or \\end",
+                                 parser.nextToken);
+        }
+    }
+    parser.gullet.endGroup();
+
+    // Collect the nodes of each row into objects and arrows.
+    const body: AnyParseNode[][] = [];
+    for (let i = 0; i < parsedRows.length; i++) {
+        const rowNodes = parsedRows[i];
+        const row: AnyParseNode[] = [];
+        let cell = newCell();
+        for (let j = 0; j < rowNodes.length; j++) {
+            if (!isStartOfArrow(rowNodes[j])) {
+                cell.body.push(rowNodes[j]);
+                continue;
+            }
+            row.push(cell);
+
+            // The character after @ gives the type of arrow.
+            j += 1;
+            if (j === rowNodes.length) {
+                throw new ParseError(
+                    `Expected one of "<>AV=|." after @`, rowNodes[j - 1]);
+            }
+            const arrowChar = assertSymbolNodeType(rowNodes[j]).text;
+            const labels = [emptyGroup(), emptyGroup()];
+            if ("<>AV".indexOf(arrowChar) !== -1) {
+                // These arrows take two labels, each ended by the arrow
+                // character, e.g. @>{above}>{below}>.
+                for (let labelNum = 0; labelNum < 2; labelNum++) {
+                    let inLabel = true;
+                    for (let k = j + 1; k < rowNodes.length; k++) {
+                        if (isLabelEnd(rowNodes[k], arrowChar)) {
+                            inLabel = false;
+                            j = k;
+                            break;
+                        }
+                        if (isStartOfArrow(rowNodes[k])) {
+                            throw new ParseError("Missing a " + arrowChar +
+                                " character to complete a CD arrow.",
+                                rowNodes[k]);
+                        }
+                        labels[labelNum].body.push(rowNodes[k]);
+                    }
+                    if (inLabel) {
+                        throw new ParseError("Missing a " + arrowChar +
+                            " character to complete a CD arrow.", rowNodes[j]);
+                    }
+                }
+            } else if ("=|.".indexOf(arrowChar) === -1) {
+                throw new ParseError(
+                    `Expected one of "<>AV=|." after @`, rowNodes[j]);
+            }
+
+            const arrowCell = newCell();
+            arrowCell.body.push(cdArrow(arrowChar, labels, parser));
+            row.push(arrowCell);
+            cell = newCell();
+        }
+        if (i % 2 === 0) {
+            // Rows of objects go object, arrow, object, ..., object.
+            row.push(cell);
+        } else {
+            // Rows of vertical arrows go arrow, space, arrow, ..., arrow, so
+            // drop the space before the first arrow.
+            row.shift();
+        }
+        body.push(row);
+    }
+
+    // amscd puts an \enskip between columns.
+    const numCols = Math.max(0, ...body.map(row => row.length));
+    const cols: AlignSpec[] = [];
+    for (let i = 0; i < numCols; i++) {
+        cols.push({type: "align", align: "c", pregap: 0.25, postgap: 0.25});
+    }
+
+    return {
+        type: "array",
+        mode: "math",
+        body,
+        arraystretch: 1,
+        addJot: true,
+        rowGaps: [],
+        cols,
+        colSeparationType: "CD",
+        hLinesBeforeRow: [[], ...body.map(() => [])],
+    };
+}
+
+// The functions below are only for placing the labels of vertical arrows in
+// {CD} diagrams, and can't be typed (see "\\cdrightarrow").  Horizontal
+// arrows reuse the extensible arrows.
+
+defineFunction<cdlabel>({
+    type: "cdlabel",
+    names: ["\\\\cdleft", "\\\\cdright"],
+    props: {
+        numArgs: 1,
+    },
+    handler({parser, funcName}, args) {
+        return {
+            type: "cdlabel",
+            mode: parser.mode,
+            side: funcName.slice(4),
+            label: args[0],
+        };
+    },
+    htmlBuilder(group, options) {
+        const newOptions = options.havingStyle(options.style.sup());
+        const label = buildCommon.wrapFragment(
+            html.buildGroup(group.label, newOptions, options), options);
+        label.classes.push("cd-label-" + group.side);
+        label.style.bottom = (0.8 - label.depth) + "em";
+        // The arrow alone determines the height and depth, not its labels.
+        label.height = 0;
+        label.depth = 0;
+        return label;
+    },
+    mathmlBuilder(group, options) {
+        let label = new mathMLTree.MathNode(
+            "mrow", [mml.buildGroup(group.label, options)]);
+        label = new mathMLTree.MathNode("mpadded", [label]);
+        label.setAttribute("width", "0");
+        if (group.side === "left") {
+            label.setAttribute("lspace", "-1width");
+        }
+        // The arrow is 1.8em tall, but the height of the label isn't known
+        // here, so this is a guess.
+        label.setAttribute("voffset", "0.7em");
+        label = new mathMLTree.MathNode("mstyle", [label]);
+        label.setAttribute("displaystyle", "false");
+        label.setAttribute("scriptlevel", "1");
+        return label;
+    },
+});
+
+defineFunction<cdlabelparent>({
+    type: "cdlabelparent",
+    names: ["\\\\cdparent"],
+    props: {
+        numArgs: 1,
+    },
+    handler({parser}, args) {
+        return {
+            type: "cdlabelparent",
+            mode: parser.mode,
+            fragment: args[0],
+        };
+    },
+    htmlBuilder(group, options) {
+        // The labels are positioned absolutely, relative to this wrapper.
+        const parent = buildCommon.wrapFragment(
+            html.buildGroup(group.fragment, options), options);
+        parent.classes.push("cd-vert-arrow");
+        return parent;
+    },
+    mathmlBuilder(group, options) {
+        return new mathMLTree.MathNode(
+            "mrow", [mml.buildGroup(group.fragment, options)]);
+    },
+});
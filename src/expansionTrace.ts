@@ -0,0 +1,84 @@
+// @flow
+/**
+ * Types and helpers for tracing macro expansion, as reported by
+ * `MacroExpander` to the `onExpand` setting.
+ */
+
+import SourceLocation from "./SourceLocation";
+import {Token} from "./Token";
+
+/**
+ * One step of macro expansion.  Tokens are in input order.
+ */
+export type ExpansionStep = {
+    name: string,             // The macro that was expanded.
+    loc?: SourceLocation,     // Where the macro's token came from.
+    args: Token[][],          // Its arguments (not including those consumed
+                              // by macros defined as functions).
+    tokens: Token[],          // What it expanded to.
+    depth: number,            // How many expansions produced the macro's token.
+};
+
+export type ExpansionCallback = (step: ExpansionStep) => void;
+
+/**
+ * An expansion step, with the steps expanding the tokens it produced.
+ */
+export type ExpansionNode = {
+    step: ExpansionStep,
+    children: ExpansionNode[],
+};
+
+/**
+ * Arrange a trace of expansion steps, in the order they were reported, into
+ * trees of expansions.
+ */
+export const expansionTree = function(trace: ExpansionStep[]): ExpansionNode[] {
+    const roots: ExpansionNode[] = [];
+    const path: ExpansionNode[] = [];
+    for (const step of trace) {
+        const node: ExpansionNode = {step, children: []};
+        path.length = Math.min(path.length, step.depth);
+        if (path.length === 0) {
+            roots.push(node);
+        } else {
+            path[path.length - 1].children.push(node);
+        }
+        path.push(node);
+    }
+    return roots;
+};
+
+/**
+ * Turn tokens back into TeX source.
+ */
+export const tokensToText = function(tokens: Token[]): string {
+    let text = "";
+    tokens.forEach((token, i) => {
+        text += token.text;
+        // Keep a control word apart from letters following it.
+        const next = tokens[i + 1];
+        if (next && /^\\[a-zA-Z@]+$/.test(token.text) &&
+                /^[a-zA-Z@]/.test(next.text)) {
+            text += " ";
+        }
+    });
+    return text;
+};
+
+/**
+ * Describe a trace of expansion steps as indented lines, one per step, of
+ * the form `\macro{arg}… → expansion`.
+ */
+export const formatExpansionTrace = function(trace: ExpansionStep[]): string {
+    const lines: string[] = [];
+    const format = (node: ExpansionNode, indent: string) => {
+        const {name, args, tokens} = node.step;
+        lines.push(indent + name +
+            args.map(arg => "{" + tokensToText(arg) + "}").join("") +
+            " → " + tokensToText(tokens));
+        node.children.forEach(child => format(child, indent + "  "));
+    };
+    expansionTree(trace).forEach(root => format(root, ""));
+    return lines.join("\n");
+};
@@ -258,6 +258,8 @@ export type FontMetrics = {
     defaultRuleThickness,
     bigOpSpacing1, bigOpSpacing2, bigOpSpacing3, bigOpSpacing4, bigOpSpacing5,
     doubleRuleSep,
+    sqrtRuleThickness,
+    ptPerEm,
 
     // [k:string]: number,
 };
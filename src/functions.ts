@@ -16,10 +16,12 @@ import "./functions/cr";
 import "./functions/delimsizing";
 import "./functions/enclose";
 import "./functions/environment";
+import "./functions/error";
 import "./functions/font";
 import "./functions/genfrac";
 import "./functions/horizBrace";
 import "./functions/href";
+import "./functions/html";
 import "./functions/htmlmathml";
 import "./functions/includegraphics";
 import "./functions/kern";
@@ -33,6 +35,7 @@ import "./functions/ordgroup";
 import "./functions/overline";
 import "./functions/phantom";
 import "./functions/raisebox";
+import "./functions/reactslot";
 import "./functions/rule";
 import "./functions/sizing";
 import "./functions/smash";
@@ -22,6 +22,9 @@ defineFunction({
         // The next 3 functions are here to support the mhchem extension.
         // Direct use of these functions is discouraged and may break someday.
         "\\xrightleftarrows", "\\xrightequilibrium", "\\xleftequilibrium",
+        // The next 3 functions are here only for the arrows of {CD} diagrams.
+        // Their names can't be typed, as \\ lexes as a single token.
+        "\\\\cdrightarrow", "\\\\cdleftarrow", "\\\\cdlongequal",
     ],
     props: {
         numArgs: 1,
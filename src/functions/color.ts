@@ -26,7 +26,7 @@ const mathmlBuilder = (group, options) => {
 
     const node = new mathMLTree.MathNode("mstyle", inner);
 
-    node.setAttribute("mathcolor", group.color);
+    mml.setColor(node, "mathcolor", group.color);
 
     return node;
 };
@@ -170,6 +170,19 @@ defineFunction({
         const body = parser.parseExpression(false);
         --parser.leftrightDepth;
         // Check the next token
+        if (parser.settings.errorRecovery &&
+                parser.nextToken.text !== "\\right") {
+            // Close the body with a null delimiter.
+            return parser.recover(new ParseError(
+                "Expected '\\right', got '" + parser.nextToken.text + "'",
+                parser.nextToken), [{
+                type: "leftright",
+                mode: parser.mode,
+                body,
+                left: delim.text,
+                right: ".",
+            }], "");
+        }
         parser.expect("\\right", false);
         const right = assertNodeType(parser.parseFunction()!, "leftright-right");
         return {
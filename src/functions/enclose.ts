@@ -135,7 +135,7 @@ const mathmlBuilder = (group, options) => {
             break;
     }
     if (group.backgroundColor) {
-        node.setAttribute("mathbackground", group.backgroundColor);
+        mml.setColor(node, "mathbackground", group.backgroundColor);
     }
     return node;
 };
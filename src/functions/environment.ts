@@ -41,13 +41,21 @@ defineFunction({
                 parser,
             };
             const result = env.handler(context, args, optArgs);
+            if (parser.settings.errorRecovery &&
+                    parser.nextToken.text !== "\\end") {
+                // Close the environment here, keeping what it contains.
+                return parser.recover(new ParseError(
+                    "Expected '\\end', got '" + parser.nextToken.text + "'",
+                    parser.nextToken), [result], "");
+            }
             parser.expect("\\end", false);
             const endNameToken = parser.nextToken;
             const end = assertNodeType(parser.parseFunction()!, "environment");
             if (end.name !== envName) {
-                throw new ParseError(
+                const error = new ParseError(
                     `Mismatch: \\begin{${envName}} matched by \\end{${end.name}}`,
                     endNameToken);
+                return parser.recover(error, [result], "");
             }
             return result;
         }
@@ -0,0 +1,39 @@
+// @flow
+// Error nodes are created by the parser when recovering from errors (see
+// `Parser.recover`), to mark the part of the input that failed to parse.
+import {defineFunctionBuilders} from "../defineFunction";
+import buildCommon from "../buildCommon";
+import {SymbolNode} from "../domTree";
+import mathMLTree from "../mathMLTree";
+
+import * as html from "../buildHTML";
+import * as mml from "../buildMathML";
+import {error} from "../parseNode";
+
+defineFunctionBuilders<error>({
+    type: "error",
+    htmlBuilder(group, options) {
+        const elements = html.buildExpression(group.body, options, false);
+        if (group.text) {
+            elements.push(buildCommon.makeSpan([], [new SymbolNode(group.text)],
+                options, {color: group.color}));
+        }
+        // Underline what could still be parsed, so it's clear that it belongs
+        // to the broken part.
+        const node = buildCommon.makeSpan(["mord", "katex-error"], elements,
+            options, group.body.length > 0 ?
+                {borderBottom: "1px dotted " + group.color} : undefined);
+        node.setAttribute("title", group.error.toString());
+        return node;
+    },
+    mathmlBuilder(group, options) {
+        const children = mml.buildExpression(group.body, options);
+        if (group.text) {
+            const text = new mathMLTree.MathNode("mtext",
+                [new mathMLTree.TextNode(group.text)]);
+            mml.setColor(text, "mathcolor", group.color);
+            children.push(text);
+        }
+        return new mathMLTree.MathNode("merror", children);
+    },
+});
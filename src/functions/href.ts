@@ -1,12 +1,20 @@
 // @flow
 import defineFunction, {ordargument} from "../defineFunction";
 import buildCommon from "../buildCommon";
+import utils from "../utils";
 import {assertNodeType, href, text, textord, AnyParseNode} from "../parseNode";
 import {MathNode} from "../mathMLTree";
+import Parser from "../Parser";
 
 import * as html from "../buildHTML";
 import * as mml from "../buildMathML";
 
+// Whether `command` may link to `url` (see the `trust` setting).
+const isTrusted = function(parser: Parser, command: string, url: string) {
+    return parser.settings.isTrusted(
+        {command, url, protocol: utils.protocolFromUrl(url)});
+};
+
 defineFunction<href>({
     type: "href",
     names: ["\\href"],
@@ -15,9 +23,13 @@ defineFunction<href>({
         argTypes: ["url", "original"],
         allowedInText: true,
     },
-    handler: ({parser}, args) => {
+    handler: ({parser, token}, args) => {
         const body = args[1];
         const href = assertNodeType(args[0], "url").url;
+        if (!isTrusted(parser, "\\href", href)) {
+            return parser.formatUntrustedCmd(
+                "\\href", ordargument(body), token);
+        }
         return {
             type: "href",
             mode: parser.mode,
@@ -45,7 +57,7 @@ defineFunction({
         argTypes: ["url"],
         allowedInText: true,
     },
-    handler: ({parser}, args) => {
+    handler: ({parser, token}, args) => {
         const href = assertNodeType(args[0], "url").url;
         const chars : AnyParseNode[] = [];
         for (let i = 0; i < href.length; i++) {
@@ -65,6 +77,9 @@ defineFunction({
             font: "\\texttt",
             body: chars,
         };
+        if (!isTrusted(parser, "\\url", href)) {
+            return parser.formatUntrustedCmd("\\url", [body], token);
+        }
         return {
             type: "href" as "href",
             mode: parser.mode,
@@ -73,3 +88,25 @@ defineFunction({
         };
     },
 });
+
+// \@ref{key}{text} links `text` to the equation labelled `key` by \label.
+// It implements \ref and \eqref (see macros.js), and isn't subject to
+// `allowedProtocols` or `trust`, as the link stays within the page.
+defineFunction<href>({
+    type: "href",
+    names: ["\\@ref"],
+    props: {
+        numArgs: 2,
+        argTypes: ["raw", "original"],
+        allowedInText: true,
+    },
+    handler: ({parser}, args) => {
+        const key = assertNodeType(args[0], "raw").string;
+        return {
+            type: "href",
+            mode: parser.mode,
+            href: "#" + utils.labelId(key),
+            body: ordargument(args[1]),
+        };
+    },
+});
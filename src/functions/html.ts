@@ -0,0 +1,139 @@
+// @flow
+// \htmlClass{class}{body}, \htmlId{id}{body}, \htmlStyle{css}{body} and
+// \htmlData{key=value,...}{body} put the HTML of `body` in a span with the
+// given class, id, style or data-* attributes.  As they let the input set
+// attributes, they are only available if the `trust` setting trusts them;
+// otherwise, `body` is shown as error text.
+import defineFunction, {ordargument} from "../defineFunction";
+import buildCommon from "../buildCommon";
+import ParseError from "../ParseError";
+import {assertNodeType, html as htmlNode} from "../parseNode";
+import {Token} from "../Token";
+
+import * as html from "../buildHTML";
+import * as mml from "../buildMathML";
+
+// Splits CSS text at each `separator` outside of quotes and parentheses, so
+// that values like url("a;b") stay whole.
+const splitOutside = function(css: string, separator: string): string[] {
+    const parts: string[] = [];
+    let start = 0;
+    let quote = "";
+    let depth = 0;
+    for (let i = 0; i < css.length; i++) {
+        const char = css[i];
+        if (quote) {
+            if (char === "\\") {
+                i++;
+            } else if (char === quote) {
+                quote = "";
+            }
+        } else if (char === "\"" || char === "'") {
+            quote = char;
+        } else if (char === "(") {
+            depth++;
+        } else if (char === ")") {
+            depth = Math.max(0, depth - 1);
+        } else if (char === separator && depth === 0) {
+            parts.push(css.slice(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(css.slice(start));
+    return parts;
+};
+
+// Turns CSS declarations into a style object, as React expects them: with
+// camel-cased property names, except for custom properties.
+const parseStyle = function(
+    css: string,
+    token?: Token,
+): {[property: string]: string} {
+    const style = {};
+    for (const declaration of splitOutside(css, ";")) {
+        const colon = declaration.indexOf(":");
+        if (colon === -1) {
+            if (declaration.trim() !== "") {
+                throw new ParseError(
+                    `Invalid CSS declaration '${declaration.trim()}'`, token);
+            }
+            continue;
+        }
+        const name = declaration.slice(0, colon).trim();
+        const property = name.slice(0, 2) === "--" ? name :
+            name.replace(/-([a-z])/g, (match, letter) => letter.toUpperCase());
+        style[property] = declaration.slice(colon + 1).trim();
+    }
+    return style;
+};
+
+defineFunction<htmlNode>({
+    type: "html",
+    names: ["\\htmlClass", "\\htmlId", "\\htmlStyle", "\\htmlData"],
+    props: {
+        numArgs: 2,
+        argTypes: ["raw", "original"],
+        allowedInText: true,
+    },
+    handler: ({parser, funcName, token}, args) => {
+        const value = assertNodeType(args[0], "raw").string.trim();
+        if (value === "") {
+            throw new ParseError(
+                `${funcName} needs a non-empty first argument`, token);
+        }
+        if (!parser.settings.isTrusted({command: funcName, argument: value})) {
+            return parser.formatUntrustedCmd(
+                funcName, ordargument(args[1]), token);
+        }
+
+        const attributes: {[attribute: string]: string} = {};
+        switch (funcName) {
+            case "\\htmlClass":
+                attributes.class = value;
+                break;
+            case "\\htmlId":
+                attributes.id = value;
+                break;
+            case "\\htmlStyle":
+                parseStyle(value, token); // Check it now, to report errors.
+                attributes.style = value;
+                break;
+            case "\\htmlData":
+                for (const keyVal of value.split(",")) {
+                    const match =
+                        /^\s*([a-z][a-z0-9-]*)\s*=(.*)$/i.exec(keyVal);
+                    if (!match) {
+                        throw new ParseError(
+                            `Invalid \\htmlData attribute '${keyVal.trim()}'`,
+                            token);
+                    }
+                    attributes["data-" + match[1].toLowerCase()] =
+                        match[2].trim();
+                }
+                break;
+        }
+
+        return {
+            type: "html",
+            mode: parser.mode,
+            attributes,
+            body: ordargument(args[1]),
+        };
+    },
+    htmlBuilder: (group, options) => {
+        const elements = html.buildExpression(group.body, options, false);
+        const {class: classes, style, ...attributes} = group.attributes;
+        const span = buildCommon.makeSpan(
+            classes ? classes.split(/\s+/) : [], elements, options);
+        if (style) {
+            Object.assign(span.style, parseStyle(style));
+        }
+        for (const attribute of Object.keys(attributes)) {
+            span.setAttribute(attribute, attributes[attribute]);
+        }
+        return span;
+    },
+    mathmlBuilder: (group, options) => {
+        return mml.buildExpressionRow(group.body, options);
+    },
+});
@@ -1,35 +1,14 @@
 // @flow
 import defineFunction from "../defineFunction";
-import{Measurement} from "../units";
-import {calculateSize, validUnit} from "../units";
+import {calculateSize, sizeData} from "../units";
 import ParseError from "../ParseError";
 import {Img} from "../domTree";
 import mathMLTree from "../mathMLTree";
 import {assertNodeType, includegraphics} from "../parseNode";
-import{CssStyle} from "../domTree";
+import utils from "../utils";
 
-const sizeData = function(str: string): Measurement {
-    if (/^[-+]? *(\d+(\.\d*)?|\.\d+)$/.test(str)) {
-        // str is a number with no unit specified.
-        // default unit is bp, per graphix package.
-        return {number: +str, unit: "bp"};
-    } else {
-        const match = (/([-+]?) *(\d+(?:\.\d*)?|\.\d+) *([a-z]{2})/).exec(str);
-        if (!match) {
-            throw new ParseError("Invalid size: '" + str
-                + "' in \\includegraphics");
-        }
-        const data = {
-            number: +(match[1] + match[2]), // sign + magnitude, cast to number
-            unit: match[3],
-        };
-        if (!validUnit(data)) {
-            throw new ParseError("Invalid unit: '" + data.unit
-             + "' in \\includegraphics.");
-        }
-        return data;
-    }
-};
+// A size option, where a bare number is in bp, per graphix package.
+const graphicsSize = (str: string) => sizeData(str, "\\includegraphics", "bp");
 
 defineFunction({
     type: "includegraphics",
@@ -40,7 +19,7 @@ defineFunction({
         argTypes: ["raw", "url"],
         allowedInText: false,
     },
-    handler: ({parser}, args, optArgs) => {
+    handler: ({parser, token}, args, optArgs) => {
         let width = {number: 0, unit: "em"};
         let height = {number: 0.9, unit: "em"};    // sorta character sized.
         let totalheight = {number: 0, unit: "em"};
@@ -60,13 +39,13 @@ defineFunction({
                             alt = str;
                             break;
                         case "width":
-                            width = sizeData(str);
+                            width = graphicsSize(str);
                             break;
                         case "height":
-                            height = sizeData(str);
+                            height = graphicsSize(str);
                             break;
                         case "totalheight":
-                            totalheight = sizeData(str);
+                            totalheight = graphicsSize(str);
                             break;
                         default:
                             throw new ParseError("Invalid key: '" + keyVal[0] +
@@ -77,6 +56,14 @@ defineFunction({
         }
 
         const src = assertNodeType(args[0], "url").url;
+        if (!parser.settings.isTrusted({
+            command: "\\includegraphics",
+            url: src,
+            protocol: utils.protocolFromUrl(src),
+        })) {
+            return parser.formatUntrustedCmd("\\includegraphics", undefined,
+                token);
+        }
 
         if (alt === "") {
             // No alt given. Use the file name. Strip away the path.
@@ -109,7 +96,7 @@ defineFunction({
             width = calculateSize(group.width, options);
         }
 
-        const style: CssStyle = {height: height + depth + "em"};
+        const style: React.CSSProperties = {height: height + depth + "em"};
         if (width > 0) {
             style.width = width + "em";
         }
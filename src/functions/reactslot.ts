@@ -0,0 +1,88 @@
+// @flow
+// \reactslot[height=..., depth=..., width=...]{name} reserves a box that is
+// filled with the React element named `name` from the `slots` prop of `Math`.
+import defineFunction from "../defineFunction";
+import {calculateSize, sizeData} from "../units";
+import ParseError from "../ParseError";
+import {Slot} from "../domTree";
+import mathMLTree from "../mathMLTree";
+import {assertNodeType, reactslot} from "../parseNode";
+
+defineFunction<reactslot>({
+    type: "reactslot",
+    names: ["\\reactslot"],
+    props: {
+        numArgs: 1,
+        numOptionalArgs: 1,
+        argTypes: ["raw", "raw"],
+        allowedInText: true,
+    },
+    handler: ({parser}, args, optArgs) => {
+        // Sized like a capital letter unless told otherwise.
+        let height = {number: 0.7, unit: "em"};
+        let depth = {number: 0, unit: "em"};
+        let width = {number: 0, unit: "em"};
+
+        if (optArgs[0]) {
+            // Parser.js does not parse key/value pairs. We get a string.
+            const attributeStr = assertNodeType(optArgs[0]!, "raw").string;
+            const attributes = attributeStr.split(",");
+            for (let i = 0; i < attributes.length; i++) {
+                if (attributes[i].trim() === "") {
+                    continue;
+                }
+                const keyVal = attributes[i].split("=");
+                if (keyVal.length !== 2) {
+                    throw new ParseError("Invalid option: '" + attributes[i] +
+                        "' in \\reactslot, expected key=value");
+                }
+                const str = keyVal[1].trim();
+                switch (keyVal[0].trim()) {
+                    case "height":
+                        height = sizeData(str, "\\reactslot");
+                        break;
+                    case "depth":
+                        depth = sizeData(str, "\\reactslot");
+                        break;
+                    case "width":
+                        width = sizeData(str, "\\reactslot");
+                        break;
+                    default:
+                        throw new ParseError("Invalid key: '" + keyVal[0] +
+                            "' in \\reactslot");
+                }
+            }
+        }
+
+        const name = assertNodeType(args[0], "raw").string.trim();
+        if (name === "") {
+            throw new ParseError("\\reactslot needs a slot name");
+        }
+
+        return {
+            type: "reactslot",
+            mode: parser.mode,
+            name,
+            height,
+            depth,
+            width,
+        };
+    },
+    htmlBuilder: (group, options) => {
+        return new Slot(
+            group.name,
+            calculateSize(group.height, options),
+            calculateSize(group.depth, options),
+            calculateSize(group.width, options),
+            options);
+    },
+    mathmlBuilder: (group, options) => {
+        // MathML can't hold the React element, so leave a space of the same
+        // size in its place.
+        const node = new mathMLTree.MathNode("mspace");
+        node.setAttribute("height", calculateSize(group.height, options) + "em");
+        node.setAttribute("depth", calculateSize(group.depth, options) + "em");
+        node.setAttribute("width", calculateSize(group.width, options) + "em");
+        return node;
+    },
+});
@@ -9,12 +9,13 @@ import "./katex.css";
  * errors in the expression, or errors in javascript handling.
  */
 
-import ParseError from "./src/ParseError";
-import Settings from "./src/Settings";
+import ParseError from "./ParseError";
+import Settings from "./Settings";
 
-import {buildTree, buildHTMLTree} from "./src/buildTree";
-import parseTree from "./src/parseTree";
-import buildCommon from "./src/buildCommon";
+import {buildTree, buildHTMLTree} from "./buildTree";
+import parseTree from "./parseTree";
+import buildCommon from "./buildCommon";
+import RenderCache, {renderCacheKey} from "./RenderCache";
 import {
     Span,
     Anchor,
@@ -22,14 +23,21 @@ import {
     SvgNode,
     PathNode,
     LineNode,
-} from "./src/domTree";
+    sourceRangeOfElement,
+} from "./domTree";
 
-import{SettingsOptions} from "./src/Settings";
-import{AnyParseNode} from "./src/parseNode";
+import{SettingsOptions} from "./Settings";
+import{AnyParseNode, NodeType, ParseNodeTypes} from "./parseNode";
+import {parseTreeVersion, childFields, children, visit, find, map, Visitor}
+    from "./traverse";
+import {ExpansionStep, ExpansionNode, expansionTree, formatExpansionTrace}
+    from "./expansionTrace";
+import{DomSpan, SourceRange, AtomHandlers, AtomCallback, SlotMap, ToReactOptions}
+    from "./domTree";
 
-import {defineSymbol} from './src/symbols';
-import {defineMacro, MacroMap} from './src/macros';
-import {setFontMetrics} from './src/fontMetrics';
+import {defineSymbol} from './symbols';
+import {defineMacro, MacroMap} from './macros';
+import {setFontMetrics} from './fontMetrics';
 
 /**
  * Parse and build an expression, and place that expression in the DOM node
@@ -70,6 +78,24 @@ const renderToString = function(
     return markup;
 };
 
+/**
+ * Parse and build an expression, and return the markup that the `Math`
+ * component renders for it with the same settings (HTML only, no MathML).
+ * The result is identical to rendering `Math` outside of a `MathDocument`,
+ * with the default `MathContext`, with `ReactDOMServer.renderToStaticMarkup`,
+ * so it can be produced without React and still be hydrated by `Math` on the
+ * client.  Like `Math`, it doesn't throw on parse errors by default.
+ */
+const renderToStaticMarkup = function(
+    expression: string,
+    options: SettingsOptions,
+): string {
+    const {macros, ...rest} = options;
+    const settings =
+        mathSettings(rest, defaultMathContext.macros, macros || {}, null);
+    return renderToHTMLTreeCached(expression, settings).html.toMarkup();
+};
+
 /**
  * Parse an expression and return the parse tree.
  */
@@ -100,7 +126,10 @@ const renderError = function(
     node.style = {color : options.errorColor};
     return node;
 };
-export {SettingsOptions};
+export {SettingsOptions, SourceRange, sourceRangeOfElement, AtomCallback, SlotMap};
+export {AnyParseNode, NodeType, ParseNodeTypes, Visitor};
+export {parseTreeVersion, childFields, children, visit, find, map};
+export {ExpansionStep, ExpansionNode, expansionTree, formatExpansionTrace};
 /**
  * Generates and returns the katex build tree. This is used for advanced
  * use cases (like rendering to custom output).
@@ -149,12 +178,391 @@ const defaultMathContext : MathContext = {
 
 export const MathContext = React.createContext(defaultMathContext)
 
-export function Math(props : {math : string} & SettingsOptions) {
-    let mathContext = React.useContext(MathContext);
-    let {math, macros, ...options} = props;
-    macros = {...mathContext.macros, ...(macros || {})} as any;
-    let html = renderToHTMLTree(math, {throwOnError:false, macros, ...options});
-    return html.toReact();
+interface CachedRender {
+    tree: AnyParseNode[] | null; // null if the expression failed to parse
+    html: DomSpan;
+    macros: MacroMap;            // global macros after parsing
+    error: ParseError | null;    // why the expression failed to parse
+    errors: ParseError[];        // errors recovered from while parsing
+}
+
+const renderCache = new RenderCache<CachedRender>(1000);
+
+/**
+ * Like `renderToHTMLTree`, but reuses the parse tree and HTML tree of an
+ * earlier render with the same expression and settings.
+ */
+const renderToHTMLTreeCached = function(
+    expression: string,
+    settings: Settings,
+    key: string = renderCacheKey(expression, settings),
+): CachedRender {
+    let entry = renderCache.get(key);
+    if (!entry) {
+        const macros = settings.macros;
+        const errors: ParseError[] = [];
+        try {
+            const tree = parseTree(expression, settings, errors);
+            const html = buildHTMLTree(tree, expression, settings);
+            entry = {tree, html, macros, error: null, errors};
+        } catch (error) {
+            const html = renderError(error, expression, settings);
+            entry = {tree: null, html, macros, error, errors: [error]};
+        }
+        renderCache.set(key, entry);
+    }
+    return entry;
+};
+
+/** Remove all cached renders used by `Math`. */
+export const clearMathCache = function() {
+    renderCache.clear();
+};
+
+/**
+ * Set the maximum number of cached renders kept for `Math`.
+ * A size of zero disables caching.
+ */
+export const setMathCacheSize = function(size: number) {
+    renderCache.resize(size);
+};
+
+/** A `Math` component rendered within a `MathDocument`. */
+interface DocumentFormula {
+    element: Element | null;    // The rendered formula, once mounted.
+    before: MacroMap | null;    // The macros it was last rendered with.
+    after: MacroMap;            // The macros in effect after it.
+    labels: MacroMap;           // The \r@key macros of its \label's.
+    update: () => void;         // Re-render it.
+}
+
+/**
+ * The `\r@key` macros recording the equations labelled by `\label` in a
+ * rendered formula, whether the formula or rows of an environment like
+ * `{align}` in it.
+ */
+const labelsOf = function(entry: CachedRender): MacroMap {
+    const labels: MacroMap = {};
+    const add = (label: string | null | undefined) => {
+        if (label != null) {
+            labels["\\r@" + label] = entry.macros["\\r@" + label];
+        }
+    };
+    if (entry.tree) {
+        visit(entry.tree, node => {
+            if (node.type === "tag") {
+                add(node.label);
+            } else if (node.type === "array" && node.labels) {
+                node.labels.forEach(add);
+            }
+        });
+    }
+    return labels;
+};
+
+const sameMacros = function(a: MacroMap, b: MacroMap): boolean {
+    const names = Object.keys(a);
+    return names.length === Object.keys(b).length &&
+        names.every(name => b.hasOwnProperty(name) && a[name] === b[name]);
+};
+
+// Sort formulas by the position of their elements in the page.  Formulas
+// that haven't been mounted yet stay where they are.
+const documentOrder = function(a: DocumentFormula, b: DocumentFormula) {
+    if (!a.element || !b.element || a.element === b.element) {
+        return 0;
+    }
+    return a.element.compareDocumentPosition(b.element) &
+        Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+};
+
+/**
+ * The macro namespace shared by the formulas of a `MathDocument`.  Each
+ * formula is parsed with the global macros left behind by the formula before
+ * it, so a `\gdef` or `\newcommand` is visible to every later formula.
+ *
+ * Formulas are kept in document order: initially the order in which they
+ * first render (which is also the order on the server), then the order of
+ * their elements in the page once they are mounted.
+ *
+ * Equation numbers are counted on in the same way.  Like LaTeX's .aux file,
+ * the labels of all equations are collected and defined before the first
+ * formula, so that `\ref` works before the `\label` it refers to.
+ */
+class MacroDocument {
+    preamble: MacroMap;
+    numberEquations: boolean;
+    labels: MacroMap;
+    start: MacroMap | null;     // The preamble and labels, once computed.
+    formulas: DocumentFormula[];
+    settling: boolean;
+
+    constructor(preamble: MacroMap) {
+        this.preamble = preamble;
+        this.numberEquations = false;
+        this.labels = {};
+        this.start = null;
+        this.formulas = [];
+        this.settling = false;
+    }
+
+    setPreamble(preamble: MacroMap) {
+        if (preamble !== this.preamble) {
+            this.preamble = preamble;
+            this.start = null;
+        }
+    }
+
+    add(formula: DocumentFormula) {
+        this.formulas.push(formula);
+    }
+
+    remove(formula: DocumentFormula) {
+        const index = this.formulas.indexOf(formula);
+        if (index !== -1) {
+            this.formulas.splice(index, 1);
+            this.scheduleSettle();
+        }
+    }
+
+    /**
+     * The macros in effect at the start of `formula`.
+     */
+    macrosBefore(formula: DocumentFormula): MacroMap {
+        const index = this.formulas.indexOf(formula);
+        if (index > 0) {
+            return this.formulas[index - 1].after;
+        }
+        if (!this.start) {
+            this.start = {...this.preamble, ...this.labels};
+        }
+        return this.start;
+    }
+
+    /**
+     * Restore document order, and re-render formulas that were rendered with
+     * out-of-date macros or labels.  Re-rendered formulas may in turn change
+     * the macros after them, so this is repeated (by `Math`) until nothing
+     * changes.
+     */
+    settle() {
+        this.settling = false;
+        this.formulas.sort(documentOrder);
+        const labels: MacroMap = {};
+        for (const formula of this.formulas) {
+            Object.assign(labels, formula.labels);
+        }
+        if (!sameMacros(labels, this.labels)) {
+            this.labels = labels;
+            this.start = null;
+        }
+        for (const formula of this.formulas) {
+            if (formula.before !== this.macrosBefore(formula)) {
+                formula.update();
+            }
+        }
+    }
+
+    /**
+     * Settle once the current batch of renders has been committed.
+     */
+    scheduleSettle() {
+        if (!this.settling) {
+            this.settling = true;
+            Promise.resolve().then(() => this.settle());
+        }
+    }
+}
+
+// Layout effects don't run on the server, and React warns about them there.
+const useLayoutEffect = typeof window !== "undefined"
+    ? React.useLayoutEffect
+    : React.useEffect;
+
+const MathDocumentContext = React.createContext<MacroDocument | null>(null);
+
+/**
+ * Provides a shared macro namespace to the `Math` components inside it, in
+ * document order, like the formulas of one LaTeX document.  Formulas are
+ * parsed in the global group (see the `globalGroup` setting), so macros
+ * defined in one formula can be used in all the following ones.  `macros`
+ * are defined before the first formula, on top of those of `MathContext`.
+ *
+ * With `numberEquations`, display formulas are numbered in document order
+ * (see the `numberEquations` setting), and can be referred to with `\ref`
+ * and `\eqref` throughout the document.
+ */
+export function MathDocument(props : {
+    macros? : MacroMap,
+    numberEquations? : boolean,
+    children? : React.ReactNode,
+}) {
+    const mathContext = React.useContext(MathContext);
+    const preamble = React.useMemo(
+        () => ({...mathContext.macros, ...(props.macros || {})}),
+        [mathContext.macros, props.macros]);
+    const mathDocument = React.useRef<MacroDocument | null>(null);
+    if (!mathDocument.current) {
+        mathDocument.current = new MacroDocument(preamble);
+    }
+    mathDocument.current.setPreamble(preamble);
+    mathDocument.current.numberEquations = !!props.numberEquations;
+    // Formulas that didn't re-render with this component may have used an
+    // old preamble.
+    useLayoutEffect(() => mathDocument.current!.scheduleSettle(),
+        [preamble, props.numberEquations]);
+    return <MathDocumentContext.Provider value={mathDocument.current}>
+        {props.children}
+    </MathDocumentContext.Provider>;
+}
+
+/**
+ * Register the calling `Math` component with `mathDocument` (if any) on its
+ * first render.
+ */
+const useDocumentFormula = function(
+    mathDocument: MacroDocument | null,
+): DocumentFormula | null {
+    const [, update] = React.useReducer((n: number) => n + 1, 0);
+    const formula = React.useRef<DocumentFormula | null>(null);
+    if (mathDocument && !formula.current) {
+        formula.current =
+            {element: null, before: null, after: {}, labels: {}, update};
+        mathDocument.add(formula.current);
+    }
+    useLayoutEffect(() => () => {
+        if (mathDocument && formula.current) {
+            mathDocument.remove(formula.current);
+        }
+    }, [mathDocument]);
+    return formula.current;
+};
+
+/**
+ * Undo the effect of a formula's own `macros` prop on the macros it leaves
+ * behind, so that only definitions made by the formula itself carry on.
+ */
+const withoutOwnMacros = function(
+    after: MacroMap,
+    before: MacroMap,
+    own: MacroMap,
+): MacroMap {
+    const names = Object.keys(own).filter(name => after[name] === own[name]);
+    if (names.length === 0) {
+        return after;
+    }
+    const result = {...after};
+    for (const name of names) {
+        if (before.hasOwnProperty(name)) {
+            result[name] = before[name];
+        } else {
+            delete result[name];
+        }
+    }
+    return result;
+};
+
+/**
+ * The settings `Math` renders with: its `options`, with its `own` macros on
+ * top of those in effect `before` it, in `mathDocument` if any.
+ */
+const mathSettings = function(
+    options: SettingsOptions,
+    before: MacroMap,
+    own: MacroMap,
+    mathDocument: MacroDocument | null,
+): Settings {
+    return new Settings({
+        throwOnError: false,
+        globalGroup: !!mathDocument,
+        numberEquations: !!(mathDocument && mathDocument.numberEquations),
+        ...options,
+        macros: {...before, ...own},
+    });
+};
+
+const atomCallbackNames =
+    ["onAtomClick", "onAtomDoubleClick", "onAtomHover", "onAtomSelect"];
+
+export type MathProps = {
+    math : string,
+    /** React elements to render in place of `\reactslot{name}`, by name. */
+    slots? : SlotMap,
+    /**
+     * Called after rendering an expression that failed to parse.  With
+     * `errorRecovery`, called once for each error recovered from instead.
+     */
+    onError? : (error: ParseError, expression: string) => void,
+    /**
+     * Renders an expression that failed to parse, instead of the default
+     * `katex-error` span.  `error.position` and `error.length` give the
+     * range of the offending input, if known.
+     */
+    renderError? : (error: ParseError, expression: string) => React.ReactNode,
+} & AtomHandlers & SettingsOptions;
+
+export function Math(props : MathProps) {
+    const mathContext = React.useContext(MathContext);
+    const mathDocument = React.useContext(MathDocumentContext);
+    const formula = useDocumentFormula(mathDocument);
+    let {math, macros, slots, onError, renderError, onAtomClick,
+        onAtomDoubleClick, onAtomHover, onAtomSelect, ...options} = props;
+    const own = macros || {};
+    const before = formula
+        ? mathDocument!.macrosBefore(formula)
+        : mathContext.macros;
+    const settings = mathSettings(
+        options, before, own, formula ? mathDocument : null);
+    const key = renderCacheKey(math, settings);
+    const entry = React.useMemo(
+        () => renderToHTMLTreeCached(math, settings, key), [key]);
+
+    // Pass on the macros this formula leaves behind to the next one in the
+    // document, and make sure that one is up to date once we are mounted.
+    const element = React.useRef<Element | null>(null);
+    const after = React.useMemo(
+        () => withoutOwnMacros(entry.macros, before, own), [entry]);
+    const labels = React.useMemo(() => labelsOf(entry), [entry]);
+    if (formula) {
+        formula.before = before;
+        formula.after = after;
+        formula.labels = labels;
+    }
+    useLayoutEffect(() => {
+        if (mathDocument && formula) {
+            formula.element = element.current;
+            mathDocument.scheduleSettle();
+        }
+    });
+
+    React.useEffect(() => {
+        if (onError) {
+            entry.errors.forEach(error => onError!(error, math));
+        }
+    }, [entry]);
+
+    // Atom callbacks are called through a ref, so that passing new callbacks
+    // on every render doesn't defeat the memoization below.
+    const callbacks = React.useRef<AtomHandlers>({});
+    callbacks.current =
+        {onAtomClick, onAtomDoubleClick, onAtomHover, onAtomSelect};
+    const wired = atomCallbackNames.map(name => !!callbacks.current[name]);
+
+    const rendered = React.useMemo(() => {
+        const reactOptions: ToReactOptions = {slots};
+        atomCallbackNames.forEach((name, i) => {
+            if (wired[i]) {
+                reactOptions[name] = (node, range, event) =>
+                    callbacks.current[name](node, range, event);
+            }
+        });
+        return React.cloneElement(entry.html.toReact(undefined, reactOptions),
+            {ref: element});
+    }, [entry, slots, ...wired]);
+    if (entry.error && renderError) {
+        return <>{renderError(entry.error, math)}</>;
+    }
+    return rendered;
 }
 
 /** Use dangerouslySetInnerHTML to render the KaTeX.  */
@@ -178,17 +586,35 @@ export default {
      * for sending to the client.
      */
     renderToString,
+    /**
+     * Renders the given LaTeX into the HTML markup that the `Math` component
+     * produces, for rendering on the server without React.
+     */
+    renderToStaticMarkup,
     /**
      * KaTeX error, usually during parsing.
      */
     ParseError,
     /**
-     * Parses the given LaTeX into KaTeX's internal parse tree structure,
-     * without rendering to HTML or MathML.
-     *
-     * NOTE: This method is not currently recommended for public use.
-     * The internal tree representation is unstable and is very likely
-     * to change. Use at your own risk.
+     * Parses the given LaTeX into a parse tree, without rendering to HTML or
+     * MathML.  Nodes are typed by `AnyParseNode`; `parseTreeVersion` is
+     * bumped whenever their structure changes incompatibly.
+     */
+    parse: generateParseTree,
+    /**
+     * The version of the structure of trees returned by `parse`.
+     */
+    parseTreeVersion,
+    /**
+     * Walk and transform parse trees: `visit` calls a function on every node,
+     * `find` returns the first node matching a predicate, and `map` copies a
+     * tree, replacing nodes bottom-up.
+     */
+    visit,
+    find,
+    map,
+    /**
+     * Deprecated alias of `parse`.
      */
     __parse: generateParseTree,
     /**
@@ -10,6 +10,7 @@ import utils from "./utils";
 import {Token} from "./Token";
 import ParseError from "./ParseError";
 import Namespace from "./Namespace";
+import {colorMacro, parseColorSpec} from "./colors";
 
 import{Mode} from "./types";
 
@@ -36,6 +37,20 @@ export interface MacroContextInterface {
      */
     popToken(): Token;
 
+    /**
+     * Add a given token to the token stack.  In particular, this get be used
+     * to put back a token returned from one of the other methods.
+     */
+    pushToken(token: Token): void;
+
+    /**
+     * Expand the next token only once if possible.  If it was expanded,
+     * returns the resulting tokens (in reverse order); otherwise, returns
+     * the token.  With `expandableOnly`, tokens marked unexpandable are not
+     * expanded.
+     */
+    expandOnce(expandableOnly?: boolean): Token | Token[];
+
     /**
      * Expand the next token only once (if possible), and return the resulting
      * top token on the stack (without removing anything from the stack).
@@ -60,11 +75,36 @@ export interface MacroContextInterface {
      */
     expandMacroAsText(name: string): string | void;
 
+    /**
+     * Resolve a color expression into a CSS color, or return `null` if it
+     * isn't valid, with the theme colors and the colors defined so far.
+     */
+    resolveColor(expression: string): string | null;
+
+    /**
+     * Fully expand the given tokens (in reverse order, like macro bodies),
+     * leaving unexpandable tokens as they are, and return the result, also in
+     * reverse order.
+     */
+    expandTokens(tokens: Token[]): Token[];
+
+    /**
+     * Consume all following space tokens, without expansion.
+     */
+    consumeSpaces(): void;
+
     /**
      * Consume the specified number of arguments from the token stream,
-     * and return the resulting array of arguments.
+     * and return the resulting array of arguments.  `delimiters` are the
+     * tokens before and after each argument, as in `MacroExpansion`.
+     */
+    consumeArgs(numArgs: number, delimiters?: string[][]): Token[][];
+
+    /**
+     * If the next token is `[`, consume the bracketed optional argument
+     * and return it.  Otherwise, return `null` without consuming anything.
      */
-    consumeArgs(numArgs: number): Token[][];
+    consumeOptionalArg(): Token[] | null;
 
     /**
      * Determine whether a command is currently "defined" (has some
@@ -73,12 +113,50 @@ export interface MacroContextInterface {
      * `implicitCommands`.
      */
     isDefined(name: string): boolean;
+
+    /**
+     * Determine whether a command is expandable, meaning that it's a macro
+     * that doesn't just stand for a function or symbol (see `\\let`).
+     */
+    isExpandable(name: string): boolean;
+
+    /**
+     * Determine whether an environment is currently defined, either built in
+     * or by macros (in the current group).
+     */
+    isEnvironmentDefined(name: string): boolean;
 }
 
-/** Macro tokens (in reverse order). */
-export type MacroExpansion = {tokens: Token[], numArgs: number};
+/**
+ * Macro tokens (in reverse order).  If `defaultArg` is given, the first of
+ * the `numArgs` arguments is optional and defaults to it.  An `unexpandable`
+ * macro stands for a function or symbol, and isn't expanded by `\edef`.
+ * For a macro with delimited parameters, `delimiters[0]` is the text that
+ * must follow the macro name, and `delimiters[i]` the text that ends
+ * argument `i` (none for an undelimited argument), e.g. `[["("], [","],
+ * [")"]]` for `\def\pair(#1,#2){…}`.
+ */
+export type MacroExpansion = {
+    tokens: Token[],
+    numArgs: number,
+    defaultArg?: Token[],
+    unexpandable?: boolean,
+    delimiters?: string[][],
+};
+
+/**
+ * A macro given by the text of its body, like one made by \newcommand, e.g.
+ * `{definition: "x_{#1}^{#2}", numArgs: 2, defaultArg: "0"}`.  It takes
+ * `numArgs` arguments, or by default as many as the body uses; if
+ * `defaultArg` is given, the first of them is optional and defaults to it.
+ */
+export type MacroText = {
+    definition: string,
+    numArgs?: number,
+    defaultArg?: string,
+};
 
-export type MacroDefinition = string | MacroExpansion |
+export type MacroDefinition = string | MacroText | MacroExpansion |
     ((mci : MacroContextInterface) => (string | MacroExpansion));
 export type MacroMap = {[k:string]: MacroDefinition};
 
@@ -191,64 +269,187 @@ defineMacro("\\char", function(context) {
     return `\\@char{${number}}`;
 });
 
+// \noexpand\macro expands to \macro, which isn't expanded any further and
+// acts like \relax if it would otherwise be expanded.
+defineMacro("\\noexpand", function(context) {
+    const token = context.popToken();
+    const noexpand = new Token(token.text, token.loc);
+    noexpand.noexpand = true;
+    noexpand.treatAsRelax = context.isExpandable(token.text);
+    return {tokens: [noexpand], numArgs: 0};
+});
+
+// \expandafter\a\b expands \b once, then puts \a back in front of the result.
+defineMacro("\\expandafter", function(context) {
+    const token = context.popToken();
+    context.expandOnce(true);
+    return {tokens: [token], numArgs: 0};
+});
+
 // Basic support for macro definitions:
 //     \def\macro{expansion}
 //     \def\macro#1{expansion}
 //     \def\macro#1#2{expansion}
 //     \def\macro#1#2#3#4#5#6#7#8#9{expansion}
-// Also the \gdef and \global\def equivalents
-const def = (context, global: boolean) => {
+// with delimited parameters as in
+//     \def\pair(#1,#2){expansion}
+// Also the \gdef and \global\def equivalents, and \edef and \xdef, which
+// fully expand the expansion when defining the macro.
+const def = (context, global: boolean, expand: boolean = false) => {
     let arg = context.consumeArgs(1)[0];
     if (arg.length !== 1) {
         throw new ParseError("\\gdef's first argument must be a macro name");
     }
     const name = arg[0].text;
-    // Count argument specifiers, and check they are in the order #1 #2 ...
+    // Read the parameter text up to the expansion, counting argument
+    // specifiers (checking they are in the order #1 #2 ...) and collecting
+    // the delimiter text around them.
     let numArgs = 0;
-    arg = context.consumeArgs(1)[0];
-    while (arg.length === 1 && arg[0].text === "#") {
-        arg = context.consumeArgs(1)[0];
-        if (arg.length !== 1) {
-            throw new ParseError(`Invalid argument number length "${arg.length}"`);
-        }
-        if (!(/^[1-9]$/.test(arg[0].text))) {
-            throw new ParseError(`Invalid argument number "${arg[0].text}"`);
-        }
-        numArgs++;
-        if (parseInt(arg[0].text) !== numArgs) {
-            throw new ParseError(`Argument number "${arg[0].text}" out of order`);
+    const delimiters: string[][] = [[]];
+    for (;;) {
+        const tok = context.popToken();
+        if (tok.text === "{") {
+            context.pushToken(tok);
+            break;
+        } else if (tok.text === "}" || tok.text === "EOF") {
+            throw new ParseError(`Expected expansion of ${name}`, tok);
+        } else if (tok.text === "#") {
+            const num = context.popToken();
+            if (num.text === "{") {
+                throw new ParseError(
+                    "Parameter text ending in # is not supported", tok);
+            }
+            if (!(/^[1-9]$/.test(num.text))) {
+                throw new ParseError(`Invalid argument number "${num.text}"`);
+            }
+            numArgs++;
+            if (parseInt(num.text) !== numArgs) {
+                throw new ParseError(`Argument number "${num.text}" out of order`);
+            }
+            delimiters.push([]);
+        } else {
+            delimiters[numArgs].push(tok.text);
         }
-        arg = context.consumeArgs(1)[0];
     }
+    arg = context.consumeArgs(1)[0];
     // Final arg is the expansion of the macro
     context.macros.set(name, {
-        tokens: arg,
+        tokens: expand ? context.expandTokens(arg) : arg,
         numArgs,
+        delimiters: delimiters.some(delimiter => delimiter.length > 0) ?
+            delimiters : undefined,
     }, global);
     return '';
 };
 defineMacro("\\gdef", (context) => def(context, true));
 defineMacro("\\def", (context) => def(context, false));
-defineMacro("\\global", (context) => {
+defineMacro("\\xdef", (context) => def(context, true, true));
+defineMacro("\\edef", (context) => def(context, false, true));
+
+// Makes `name` mean what `token` currently means: the same macro, or else
+// the function, symbol or character, even if it's redefined later.
+const letCommand = (context, name: string, token: Token, global: boolean) => {
+    let macro = context.macros.get(token.text);
+    if (macro == null) {
+        const meaning = new Token(token.text, token.loc);
+        meaning.noexpand = true;
+        macro = {tokens: [meaning], numArgs: 0, unexpandable: true};
+    }
+    context.macros.set(name, macro, global);
+};
+
+const consumeControlSequence = (context, command: string): string => {
+    context.consumeSpaces();
+    const name = context.popToken().text;
+    if (name[0] !== "\\" || name.length === 1) {
+        throw new ParseError(`${command}'s first argument must be a ` +
+            "control sequence");
+    }
+    return name;
+};
+
+// \let\macro=\other, where the = and a single space after it are optional.
+const letMacro = (context, global: boolean) => {
+    const name = consumeControlSequence(context, "\\let");
+    context.consumeSpaces();
+    let token = context.popToken();
+    if (token.text === "=") {
+        token = context.popToken();
+        if (token.text === " ") {
+            token = context.popToken();
+        }
+    }
+    letCommand(context, name, token, global);
+    return '';
+};
+defineMacro("\\let", (context) => letMacro(context, false));
+
+// \futurelet\macro\a\b lets \macro be \b, then continues with \a\b.
+const futurelet = (context, global: boolean) => {
+    const name = consumeControlSequence(context, "\\futurelet");
+    const middle = context.popToken();
+    const token = context.popToken();
+    letCommand(context, name, token, global);
+    return {tokens: [token, middle], numArgs: 0};
+};
+defineMacro("\\futurelet", (context) => futurelet(context, false));
+
+// Definitions that \global makes global.
+const globalCommands = {
+    "\\def": (context) => def(context, true),
+    "\\gdef": (context) => def(context, true),
+    "\\edef": (context) => def(context, true, true),
+    "\\xdef": (context) => def(context, true, true),
+    "\\let": (context) => letMacro(context, true),
+    "\\futurelet": (context) => futurelet(context, true),
+    "\\global": (context) => globalPrefix(context),
+};
+const globalPrefix = (context) => {
     const next = context.consumeArgs(1)[0];
     if (next.length !== 1) {
         throw new ParseError("Invalid command after \\global");
     }
     const command = next[0].text;
     // TODO: Should expand command
-    if (command === "\\def") {
-        // \global\def is equivalent to \gdef
-        return def(context, true);
+    if (globalCommands.hasOwnProperty(command)) {
+        // e.g. \global\def is equivalent to \gdef
+        return globalCommands[command](context);
     } else {
         throw new ParseError(`Invalid command '${command}' after \\global`);
     }
-});
+};
+defineMacro("\\global", globalPrefix);
+
+// Consume the optional [args][default] of \newcommand or \newenvironment,
+// giving the number of arguments and the default of the first, if any.
+const consumeArgSpec = (
+    context: MacroContextInterface,
+    command: string,
+): {numArgs: number, defaultArg?: Token[]} => {
+    const numArgsArg = context.consumeOptionalArg();
+    if (!numArgsArg) {
+        return {numArgs: 0};
+    }
+    const argText = numArgsArg.map(token => token.text).reverse().join("");
+    if (!argText.match(/^\s*[0-9]+\s*$/)) {
+        throw new ParseError(`Invalid number of arguments: ${argText}`);
+    }
+    const numArgs = parseInt(argText);
+    const defaultArg = context.consumeOptionalArg() || undefined;
+    if (defaultArg && numArgs === 0) {
+        throw new ParseError(
+            `${command} has a default argument but takes no arguments`);
+    }
+    return {numArgs, defaultArg};
+};
 
 // \newcommand{\macro}[args]{definition}
 // \renewcommand{\macro}[args]{definition}
-// TODO: Optional arguments: \newcommand{\macro}[args][default]{definition}
+// \newcommand{\macro}[args][default]{definition}
+// With a default, the first argument is optional, e.g.
+// \newcommand{\norm}[2][2]{\|#2\|_{#1}} makes \norm{x} mean \|x\|_{2}.
 const newcommand = (context, existsOK: boolean, nonexistsOK: boolean) => {
-    let arg = context.consumeArgs(1)[0];
+    const arg = context.consumeArgs(1)[0];
     if (arg.length !== 1) {
         throw new ParseError(
             "\\newcommand's first argument must be a macro name");
@@ -265,27 +466,14 @@ const newcommand = (context, existsOK: boolean, nonexistsOK: boolean) => {
             `does not yet exist; use \\newcommand`);
     }
 
-    let numArgs = 0;
-    arg = context.consumeArgs(1)[0];
-    if (arg.length === 1 && arg[0].text === "[") {
-        let argText = '';
-        let token = context.expandNextToken();
-        while (token.text !== "]" && token.text !== "EOF") {
-            // TODO: Should properly expand arg, e.g., ignore {}s
-            argText += token.text;
-            token = context.expandNextToken();
-        }
-        if (!argText.match(/^\s*[0-9]+\s*$/)) {
-            throw new ParseError(`Invalid number of arguments: ${argText}`);
-        }
-        numArgs = parseInt(argText);
-        arg = context.consumeArgs(1)[0];
-    }
+    const {numArgs, defaultArg} =
+        consumeArgSpec(context, `\\newcommand{${name}}`);
 
     // Final arg is the expansion of the macro
     context.macros.set(name, {
-        tokens: arg,
+        tokens: context.consumeArgs(1)[0],
         numArgs,
+        defaultArg,
     });
     return '';
 };
@@ -293,6 +481,71 @@ defineMacro("\\newcommand", (context) => newcommand(context, false, true));
 defineMacro("\\renewcommand", (context) => newcommand(context, true, false));
 defineMacro("\\providecommand", (context) => newcommand(context, true, true));
 
+// \newenvironment{name}[args][default]{begin}{end}
+// \renewenvironment{name}[args][default]{begin}{end}
+// The environment is defined by macros \begin{name} and \end{name}, which
+// MacroExpander expands in place of \begin{name} and \end{name} (see
+// `expandOnce`).  As in LaTeX, only the begin code takes arguments.
+const newenvironment = (context, existsOK: boolean, nonexistsOK: boolean) => {
+    const name = context.consumeArgs(1)[0].map(token => token.text)
+        .reverse().join("");
+
+    const exists = context.isEnvironmentDefined(name);
+    if (exists && !existsOK) {
+        throw new ParseError(`\\newenvironment{${name}} attempting to ` +
+            `redefine ${name}; use \\renewenvironment`);
+    }
+    if (!exists && !nonexistsOK) {
+        throw new ParseError(`\\renewenvironment{${name}} when environment ` +
+            `${name} does not yet exist; use \\newenvironment`);
+    }
+
+    const {numArgs, defaultArg} =
+        consumeArgSpec(context, `\\newenvironment{${name}}`);
+
+    const [begin, end] = context.consumeArgs(2);
+    context.macros.set(`\\begin{${name}}`, {tokens: begin, numArgs, defaultArg});
+    context.macros.set(`\\end{${name}}`, {tokens: end, numArgs: 0});
+    return '';
+};
+defineMacro("\\newenvironment",
+    (context) => newenvironment(context, false, true));
+defineMacro("\\renewenvironment",
+    (context) => newenvironment(context, true, false));
+
+// \definecolor{name}{model}{spec}, with the models rgb, RGB, HTML, gray and
+// cmyk of xcolor, e.g. \definecolor{darkred}{rgb}{0.5,0,0}.
+// \colorlet{name}{color}, where the color may mix colors, e.g. red!30!blue.
+// Like macros, colors are local to the group they are defined in.
+const setColor = (context, name: string, color: string) => {
+    context.macros.set(colorMacro(name), {
+        tokens: [new Token(color)],
+        numArgs: 0,
+    });
+};
+const argToText = (arg: Token[]) =>
+    arg.map(token => token.text).reverse().join("").trim();
+
+defineMacro("\\definecolor", (context) => {
+    const [name, model, spec] = context.consumeArgs(3).map(argToText);
+    const color = parseColorSpec(model, spec);
+    if (!color) {
+        throw new ParseError(
+            `Invalid color specification '${spec}' in model '${model}'`);
+    }
+    setColor(context, name, color);
+    return '';
+});
+defineMacro("\\colorlet", (context) => {
+    const [name, expression] = context.consumeArgs(2).map(argToText);
+    const color = context.resolveColor(expression);
+    if (!color) {
+        throw new ParseError(`Invalid color: '${expression}'`);
+    }
+    setColor(context, name, color);
+    return '';
+});
+
 //////////////////////////////////////////////////////////////////////
 // Grouping
 // \let\bgroup={ \let\egroup=}
@@ -625,15 +878,44 @@ defineMacro("\\quad", "\\hskip1em\\relax");
 defineMacro("\\qquad", "\\hskip2em\\relax");
 
 // \tag@in@display form of \tag
+// \df@tag@ref is what \ref refers to the equation by: the tag without the
+// parentheses added by \tag@paren.
 defineMacro("\\tag", "\\@ifstar\\tag@literal\\tag@paren");
-defineMacro("\\tag@paren", "\\tag@literal{({#1})}");
+defineMacro("\\tag@paren", "\\tag@literal{({#1})}\\gdef\\df@tag@ref{#1}");
 defineMacro("\\tag@literal", (context) => {
     if (context.macros.get("\\df@tag")) {
         throw new ParseError("Multiple \\tag");
     }
-    return "\\gdef\\df@tag{\\text{#1}}";
+    return "\\gdef\\df@tag{\\text{#1}}\\gdef\\df@tag@ref{#1}";
 });
 
+// \notag and \nonumber leave an equation unnumbered (see `numberEquations`).
+defineMacro("\\notag", "\\gdef\\df@notag{}");
+defineMacro("\\nonumber", "\\notag");
+
+// \label{key} names the equation it's in for \ref{key} and \eqref{key}.
+// Once the equation's number is known, parseTree records it in the global
+// macro \r@key, as LaTeX does.
+defineMacro("\\label", (context) => {
+    if (context.macros.get("\\df@label")) {
+        throw new ParseError("Multiple \\label's");
+    }
+    return "\\gdef\\df@label{#1}";
+});
+
+// \ref{key} and \eqref{key} show the number of the equation labelled `key`,
+// linked to it, or ?? if there is no such label (yet).
+const ref = (context: MacroContextInterface, parens: boolean) => {
+    const key = context.consumeArgs(1)[0].map(token => token.text)
+        .reverse().join("");
+    const number = context.expandMacroAsText("\\r@" + key);
+    const text = number == null ? "\\textbf{??}" :
+        parens ? `\\text{(${number})}` : `\\text{${number}}`;
+    return `\\@ref{${key}}{${text}}`;
+};
+defineMacro("\\ref", (context) => ref(context, false));
+defineMacro("\\eqref", (context) => ref(context, true));
+
 // \renewcommand{\bmod}{\nonscript\mskip-\medmuskip\mkern5mu\mathbin
 //   {\operator@font mod}\penalty900
 //   \mkern5mu\nonscript\mskip-\medmuskip}
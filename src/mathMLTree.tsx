@@ -13,7 +13,7 @@ import utils from "./utils";
 import {DocumentFragment} from "./tree";
 
 import{VirtualNode} from "./tree";
-import { HtmlDomNode } from "./domTree";
+import { HtmlDomNode, styleMarkup } from "./domTree";
 import * as React from 'react'
 /**
  * MathML node types used in KaTeX. For a complete list of MathML nodes, see
@@ -25,7 +25,7 @@ export type MathNodeType =
     "mover" | "munder" | "munderover" | "msup" | "msub" | "msubsup" |
     "mfrac" | "mroot" | "msqrt" |
     "mtable" | "mtr" | "mtd" | "mlabeledtr" |
-    "mrow" | "menclose" |
+    "mrow" | "menclose" | "merror" |
     "mstyle" | "mpadded" | "mphantom" | "mglyph";
 
 export interface MathDomNode extends VirtualNode {
@@ -45,11 +45,13 @@ export function newDocumentFragment(children: MathDomNode[]): documentFragment {
 export class MathNode implements MathDomNode {
     type: MathNodeType;
     attributes: {[k:string] :any};
+    style: React.CSSProperties;
     children: MathDomNode[];
 
     constructor(type: MathNodeType, children?: MathDomNode[]) {
         this.type = type;
         this.attributes = {};
+        this.style = {};
         this.children = children || [];
     }
 
@@ -80,6 +82,10 @@ export class MathNode implements MathDomNode {
                 node.setAttribute(attr, this.attributes[attr]);
             }
         }
+        const styles = styleMarkup(this.style);
+        if (styles) {
+            node.setAttribute("style", styles);
+        }
 
         for (let i = 0; i < this.children.length; i++) {
             node.appendChild(this.children[i].toNode());
@@ -102,6 +108,10 @@ export class MathNode implements MathDomNode {
                 markup += "\"";
             }
         }
+        const styles = styleMarkup(this.style);
+        if (styles) {
+            markup += ` style="${utils.escape(styles)}"`;
+        }
 
         markup += ">";
 
@@ -116,8 +126,10 @@ export class MathNode implements MathDomNode {
 
     toReact(key?) {
         let Tag = this.type as any;
+        const hasStyle = Object.getOwnPropertyNames(this.style).length > 0;
         return React.createElement(Tag, {
             ...this.attributes,
+            style: hasStyle ? {...this.style} : undefined,
             key,
             children: this.children.map((x,i) => x.toReact(i))
         });
@@ -156,7 +168,7 @@ export class TextNode implements MathDomNode {
         return utils.escape(this.toText());
     }
     toReact(k?) {
-        return <>utils.escape(this.toText())</>;
+        return <React.Fragment key={k}>{this.toText()}</React.Fragment>;
     }
 
     /**
@@ -227,7 +239,7 @@ class SpaceNode implements MathDomNode {
         if (this.character) {
             return `<mtext>${this.character}</mtext>`;
         } else {
-            return `<mspace width="${this.width}em"/>`;
+            return `<mspace width="${this.width}em"></mspace>`;
         }
     }
 
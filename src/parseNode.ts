@@ -1,11 +1,12 @@
 // @flow
 import { NON_ATOMS } from "./symbols";
 import SourceLocation from "./SourceLocation";
-import { AlignSpec } from "./environments/array";
+import { AlignSpec, CLine, ColSeparationType } from "./environments/array";
 import { Atom } from "./symbols";
 import { Mode, StyleStr } from "./types";
 import { Token } from "./Token";
 import { Measurement } from "./units";
+import ParseError from "./ParseError";
 
 export type NodeType = keyof ParseNodeTypes;
 // export type ParseNode<TYPE extends NodeType> = ParseNodeTypes[TYPE];
@@ -16,12 +17,12 @@ export type SymbolParseNode = atom | accentToken | mathord | opToken | spacing |
 export type op = op_with_symb | op_no_symb | op_text;
 // Union of all possible `ParseNode<>` types.
 export type AnyParseNode =
-    | array | color | colorToken | keyVals | op | ordgroup | raw | size | styling
+    | array | color | colorToken | error | keyVals | op | ordgroup | raw | size | styling
     | supsub | tag | text | url | verb | atom | mathord | spacing | textord
-    | accentToken | opToken | accent | accentUnder | cr | delimsizing | enclose
-    | environment | font | genfrac | horizBrace | href | htmlmathml | includegraphics
-    | infix | kern | lap | leftright | leftrightRight | mathchoice | middle | mclass
-    | operatorname | overline | phantom | hphantom | vphantom | raisebox | rule | sizing | smash | sqrt | underline | xArrow
+    | accentToken | opToken | accent | accentUnder | cdlabel | cdlabelparent | cr | delimsizing | enclose
+    | environment | font | genfrac | horizBrace | href | html | htmlmathml | includegraphics
+    | infix | kern | lap | leftright | leftrightRight | mathchoice | middle | mclass | multicolumn
+    | operatorname | overline | phantom | hphantom | vphantom | raisebox | reactslot | rule | sizing | smash | sqrt | underline | xArrow
 
 export interface ParseNode {
     type: string,
@@ -29,13 +30,14 @@ export interface ParseNode {
     loc?: SourceLocation,
 }
 
-type ParseNodeTypes = {
-    "array": array, "color": color, "color-token": colorToken, "keyVals": keyVals, "op": op, "ordgroup": ordgroup, "raw": raw, "size": size, "styling": styling, "supsub": supsub,
+// Parse node types by their `type`.
+export type ParseNodeTypes = {
+    "array": array, "color": color, "color-token": colorToken, "error": error, "keyVals": keyVals, "op": op, "ordgroup": ordgroup, "raw": raw, "size": size, "styling": styling, "supsub": supsub,
     "tag": tag, "text": text, "url": url, "verb": verb, "atom": atom, "mathord": mathord, "spacing": spacing, "textord": textord, "accent-token": accentToken, "op-token": opToken,
-    "accent": accent, "accentUnder": accentUnder, "cr": cr, "delimsizing": delimsizing, "enclose": enclose, "environment": environment, "font": font, "genfrac": genfrac, "horizBrace": horizBrace, "href": href,
-    "htmlmathml": htmlmathml, "includegraphics": includegraphics, "infix": infix, "kern": kern, "lap": lap, "leftright": leftright,
+    "accent": accent, "accentUnder": accentUnder, "cdlabel": cdlabel, "cdlabelparent": cdlabelparent, "cr": cr, "delimsizing": delimsizing, "enclose": enclose, "environment": environment, "font": font, "genfrac": genfrac, "horizBrace": horizBrace, "href": href,
+    "html": html, "htmlmathml": htmlmathml, "includegraphics": includegraphics, "infix": infix, "kern": kern, "lap": lap, "leftright": leftright,
     "leftright-right": leftrightRight, "mathchoice": mathchoice, "middle": middle,
-    "mclass": mclass, "operatorname": operatorname, "overline": overline, "phantom": phantom, "hphantom": hphantom, "vphantom": vphantom, "raisebox": raisebox, "rule": rule, "sizing": sizing, "smash": smash,
+    "mclass": mclass, "multicolumn": multicolumn, "operatorname": operatorname, "overline": overline, "phantom": phantom, "hphantom": hphantom, "vphantom": vphantom, "raisebox": raisebox, "reactslot": reactslot, "rule": rule, "sizing": sizing, "smash": smash,
     "sqrt": sqrt, "underline": underline, "xArrow": xArrow,
 }
 
@@ -46,8 +48,17 @@ export interface array extends ParseNode {
     cols?: AlignSpec[],
     arraystretch: number,
     body: AnyParseNode[][], // List of rows in the (2D) array.
-    rowGaps: (Measurement)[],
+    rowGaps: (Measurement | null)[],
     hLinesBeforeRow: Array<boolean[]>,
+    cLinesBeforeRow?: Array<CLine[]>, // Only if there are any \cline's.
+    colSeparationType?: ColSeparationType,
+    // The tag of each row (empty if it has none), in environments like {align}
+    // whose rows are numbered separately, and the key given to \label in it.
+    tags?: AnyParseNode[][],
+    labels?: (string | null)[],
+    // Whether the tags go in a column against the edge of the display, which
+    // is the case if the environment is the whole display.
+    tagColumn?: boolean,
 }
 export interface color extends ParseNode {
     type: "color",
@@ -58,6 +69,14 @@ export interface colorToken extends ParseNode {
     type: "color-token",
     color: string,
 }
+// A part of the input that failed to parse, when recovering from errors.
+export interface error extends ParseNode {
+    type: "error",
+    error: ParseError,
+    color: string,
+    body: AnyParseNode[], // What could be parsed of the broken part.
+    text: string,         // Unparsed input, or a placeholder for missing input.
+}
 export interface keyVals extends ParseNode {
     type: "keyVals",
     keyVals: string,
@@ -119,6 +138,7 @@ export interface tag extends ParseNode {
     type: "tag",
     body: AnyParseNode[],
     tag: AnyParseNode[],
+    label?: string, // The key given to \label, if any.
 }
 export interface text extends ParseNode {
     type: "text",
@@ -179,11 +199,22 @@ export interface accentUnder extends ParseNode {
     isShifty?: boolean,
     base: AnyParseNode,
 }
+// A label beside a vertical arrow in a {CD} diagram.
+export interface cdlabel extends ParseNode {
+    type: "cdlabel",
+    side: string,
+    label: AnyParseNode,
+}
+// A vertical arrow in a {CD} diagram, with its labels.
+export interface cdlabelparent extends ParseNode {
+    type: "cdlabelparent",
+    fragment: AnyParseNode,
+}
 export interface cr extends ParseNode {
     type: "cr",
     newRow: boolean,
     newLine: boolean,
-    size: Measurement,
+    size: Measurement | null,
 }
 export interface delimsizing extends ParseNode {
     type: "delimsizing",
@@ -230,6 +261,11 @@ export interface href extends ParseNode {
     href: string,
     body: AnyParseNode[],
 }
+export interface html extends ParseNode {
+    type: "html",
+    attributes: {[attribute: string]: string},
+    body: AnyParseNode[],
+}
 export interface htmlmathml extends ParseNode {
     type: "htmlmathml",
     html: AnyParseNode[],
@@ -284,6 +320,13 @@ export interface mclass extends ParseNode {
     mclass: string,
     body: AnyParseNode[],
 }
+// A cell of an array spanning several columns, as made by \multicolumn.
+export interface multicolumn extends ParseNode {
+    type: "multicolumn",
+    span: number,       // The number of columns.
+    cols: AlignSpec[],  // Its own column specification, for one column.
+    body: AnyParseNode, // The cell, as for a cell not spanning columns.
+}
 export interface operatorname extends ParseNode {
     type: "operatorname",
     body: AnyParseNode[],
@@ -309,6 +352,13 @@ export interface raisebox extends ParseNode {
     dy: Measurement,
     body: AnyParseNode,
 }
+export interface reactslot extends ParseNode {
+    type: "reactslot",
+    name: string,
+    height: Measurement,
+    depth: Measurement,
+    width: Measurement,
+}
 export interface rule extends ParseNode {
     type: "rule",
     shift: Measurement | null,
@@ -373,7 +423,7 @@ export function checkNodeType<NODETYPE extends NodeType>(
         // `type: TYPE` (as that's not explicitly mentioned anywhere), though that
         // happens to be true for all our value types.
         // $FlowFixMe
-        return node;
+        return node as ParseNodeTypes[NODETYPE];
     }
     return undefined;
 }
@@ -8,35 +8,75 @@ import Parser from "./Parser";
 import ParseError from "./ParseError";
 
 import Settings from "./Settings";
-import{AnyParseNode} from "./parseNode";
+import {find} from "./traverse";
+import{AnyParseNode, array} from "./parseNode";
 
 /**
  * Parses an expression using a Parser, then returns the parsed result.
+ * With `settings.errorRecovery`, the errors recovered from are appended to
+ * `errors`, if given.
  */
-const parseTree = function(toParse: string, settings: Settings): AnyParseNode[] {
+const parseTree = function(
+    toParse: string,
+    settings: Settings,
+    errors?: ParseError[],
+): AnyParseNode[] {
     if (!(typeof toParse === 'string')) {
         throw new TypeError('KaTeX can only parse string typed expression');
     }
     const parser = new Parser(toParse, settings);
-    // Blank out any \df@tag to avoid spurious "Duplicate \tag" errors
-    delete parser.gullet.macros.current["\\df@tag"];
+    const macros = parser.gullet.macros;
+    // Blank out any \df@tag to avoid spurious "Duplicate \tag" errors, and
+    // likewise for what \tag, \notag and \label leave behind.
+    delete macros.current["\\df@tag"];
+    delete macros.current["\\df@tag@ref"];
+    delete macros.current["\\df@notag"];
+    delete macros.current["\\df@label"];
     let tree = parser.parse();
 
+    // Number a display equation without a \tag, following on from the
+    // number of the previous one in \c@equation.
+    if (settings.numberEquations && settings.displayMode) {
+        parser.numberEquation();
+    }
+
+    // Environments whose rows are tagged, like {align}, set the tags in a
+    // column against the edge of the display, so must be the whole of it.
+    const tagged = find(tree, node => node.type === "array" &&
+        !!node.tags && node.tags.some(tag => tag.length > 0)) as
+        array | undefined;
+    if (tagged) {
+        if (tree.length !== 1 || tree[0] !== tagged ||
+                macros.get("\\df@tag")) {
+            throw new ParseError(
+                "An environment with tagged rows must be the whole display",
+                tagged);
+        }
+        tagged.tagColumn = true;
+    }
+
     // If the input used \tag, it will set the \df@tag macro to the tag.
     // In this case, we separately parse the tag and wrap the tree.
-    if (parser.gullet.macros.get("\\df@tag")) {
+    if (macros.get("\\df@tag")) {
         if (!settings.displayMode) {
             throw new ParseError("\\tag works only in display equations");
         }
+        const label = parser.labelEquation();
         parser.gullet.feed("\\df@tag");
         tree = [{
             type: "tag",
             mode: "text",
             body: tree,
             tag: parser.parse(),
+            label,
         }];
+    } else {
+        parser.reportUnnumberedLabel();
     }
 
+    if (errors) {
+        errors.push(...parser.errors);
+    }
     return tree;
 };
 
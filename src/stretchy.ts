@@ -52,6 +52,9 @@ const stretchyCodePoint: {[k:string]: string} = {
     xrightleftarrows: "\u21c4",
     xrightequilibrium: "\u21cc",  // Not a perfect match.
     xleftequilibrium: "\u21cb",   // None better available.
+    "\\cdrightarrow": "\u2192",
+    "\\cdleftarrow": "\u2190",
+    "\\cdlongequal": "=",
 };
 
 const mathMLnode = function(label: string) : MathNode {
@@ -158,6 +161,11 @@ const katexImagesData: {
         "rightharpoonaboveshortbar"], 1.75, 716],
     xleftequilibrium: [["shortbaraboveleftharpoon",
         "shortrightharpoonabovebar"], 1.75, 716],
+
+    // The arrows of {CD} diagrams, which amscd makes at least 2.5pc long.
+    "\\cdrightarrow": [["rightarrow"], 3.0, 522, "xMaxYMin"],
+    "\\cdleftarrow": [["leftarrow"], 3.0, 522, "xMinYMin"],
+    "\\cdlongequal": [["longequal"], 3.0, 334, "xMinYMin"],
 };
 
 const groupLength = function(arg: AnyParseNode): number {
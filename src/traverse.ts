@@ -0,0 +1,232 @@
+// @flow
+/**
+ * Utilities for walking and transforming parse trees, as returned by
+ * `katex.parse`.  They rely on `childFields`, which records for every type of
+ * parse node which of its fields hold child nodes.
+ */
+
+import{AnyParseNode, NodeType, ParseNodeTypes} from "./parseNode";
+
+/**
+ * The version of the parse tree structure.  It is bumped whenever parse nodes
+ * change incompatibly, e.g. when a node type or one of its fields is removed
+ * or renamed, or a field changes what it holds.
+ */
+export const parseTreeVersion = 1;
+
+/**
+ * How a field holds child nodes: a single node (possibly null or undefined),
+ * a list of nodes (possibly undefined), or a list of rows of nodes.
+ */
+export type ChildKind = "node" | "list" | "rows";
+
+export type ChildFields<T extends AnyParseNode> =
+    {[field in keyof T]?: ChildKind};
+
+/**
+ * The fields holding child nodes, for every type of parse node.  Adding a node
+ * type to `AnyParseNode` without listing it here is a type error.
+ */
+export const childFields: {[T in NodeType]: ChildFields<ParseNodeTypes[T]>} = {
+    "array": {body: "rows", tags: "rows"},
+    "color": {body: "list"},
+    "color-token": {},
+    "error": {body: "list"},
+    "keyVals": {},
+    "op": {body: "list"},
+    "ordgroup": {body: "list"},
+    "raw": {},
+    "size": {},
+    "styling": {body: "list"},
+    "supsub": {base: "node", sup: "node", sub: "node"},
+    "tag": {body: "list", tag: "list"},
+    "text": {body: "list"},
+    "url": {},
+    "verb": {},
+    "atom": {},
+    "mathord": {},
+    "spacing": {},
+    "textord": {},
+    "accent-token": {},
+    "op-token": {},
+    "accent": {base: "node"},
+    "accentUnder": {base: "node"},
+    "cdlabel": {label: "node"},
+    "cdlabelparent": {fragment: "node"},
+    "cr": {},
+    "delimsizing": {},
+    "enclose": {body: "node"},
+    "environment": {nameGroup: "node"},
+    "font": {body: "node"},
+    "genfrac": {numer: "node", denom: "node"},
+    "horizBrace": {base: "node"},
+    "href": {body: "list"},
+    "html": {body: "list"},
+    "htmlmathml": {html: "list", mathml: "list"},
+    "includegraphics": {},
+    "infix": {},
+    "kern": {},
+    "lap": {body: "node"},
+    "leftright": {body: "list"},
+    "leftright-right": {},
+    "mathchoice": {
+        display: "list", text: "list", script: "list", scriptscript: "list",
+    },
+    "middle": {},
+    "mclass": {body: "list"},
+    "multicolumn": {body: "node"},
+    "operatorname": {body: "list"},
+    "overline": {body: "node"},
+    "phantom": {body: "list"},
+    "hphantom": {body: "node"},
+    "vphantom": {body: "node"},
+    "raisebox": {body: "node"},
+    "reactslot": {},
+    "rule": {},
+    "sizing": {body: "list"},
+    "smash": {body: "node"},
+    "sqrt": {body: "node", index: "node"},
+    "underline": {body: "node"},
+    "xArrow": {body: "node", below: "node"},
+};
+
+// What a field listed in `childFields` holds, according to its `ChildKind`.
+type ChildValue = AnyParseNode | AnyParseNode[] | AnyParseNode[][];
+
+/**
+ * The value of `field` of `node`, which `childFields` lists for its type.
+ */
+const childValue = function(
+    node: AnyParseNode,
+    field: string,
+): ChildValue | null | undefined {
+    return (node as unknown as {[field: string]: ChildValue | null})[field];
+};
+
+/**
+ * Sets `field` of `node`, which `childFields` lists for its type.
+ */
+const setChildValue = function(
+    node: AnyParseNode,
+    field: string,
+    value: ChildValue,
+) {
+    (node as unknown as {[field: string]: ChildValue})[field] = value;
+};
+
+/**
+ * Returns the children of `node`, in field order.
+ */
+export function children(node: AnyParseNode): AnyParseNode[] {
+    const result: AnyParseNode[] = [];
+    const fields = childFields[node.type] as {[field: string]: ChildKind};
+    for (const field of Object.keys(fields)) {
+        const value = childValue(node, field);
+        if (!value) {
+            continue;
+        }
+        switch (fields[field]) {
+            case "node":
+                result.push(value as AnyParseNode);
+                break;
+            case "list":
+                result.push(...value as AnyParseNode[]);
+                break;
+            case "rows":
+                for (const row of value as AnyParseNode[][]) {
+                    result.push(...row);
+                }
+                break;
+        }
+    }
+    return result;
+}
+
+/**
+ * Called for every node in a tree, with the node containing it (or null at
+ * the top level).  Returning `false` skips the node's children.
+ */
+export type Visitor =
+    (node: AnyParseNode, parent: AnyParseNode | null) => void | boolean;
+
+/**
+ * Calls `visitor` on every node of `tree`, parents before their children.
+ */
+export function visit(
+    tree: AnyParseNode | AnyParseNode[],
+    visitor: Visitor,
+    parent: AnyParseNode | null = null,
+) {
+    const nodes = Array.isArray(tree) ? tree : [tree];
+    for (const node of nodes) {
+        if (visitor(node, parent) !== false) {
+            visit(children(node), visitor, node);
+        }
+    }
+}
+
+/**
+ * Returns the first node of `tree` (parents before their children) for which
+ * `predicate` holds, or `undefined` if there is none.
+ */
+export function find(
+    tree: AnyParseNode | AnyParseNode[],
+    predicate: (node: AnyParseNode, parent: AnyParseNode | null) => boolean,
+): AnyParseNode | undefined {
+    let found: AnyParseNode | undefined;
+    visit(tree, (node, parent) => {
+        if (found) {
+            return false;
+        }
+        if (predicate(node, parent)) {
+            found = node;
+            return false;
+        }
+    });
+    return found;
+}
+
+/**
+ * Transforms `tree` bottom-up: every node is copied with its children
+ * transformed, and then replaced by what `transform` returns for the copy.
+ * The original tree is left untouched.
+ */
+export function map(
+    tree: AnyParseNode,
+    transform: (node: AnyParseNode) => AnyParseNode,
+): AnyParseNode;
+export function map(
+    tree: AnyParseNode[],
+    transform: (node: AnyParseNode) => AnyParseNode,
+): AnyParseNode[];
+export function map(
+    tree: AnyParseNode | AnyParseNode[],
+    transform: (node: AnyParseNode) => AnyParseNode,
+): AnyParseNode | AnyParseNode[] {
+    if (Array.isArray(tree)) {
+        return tree.map(node => map(node, transform));
+    }
+    const copy: AnyParseNode = {...tree};
+    const fields = childFields[tree.type] as {[field: string]: ChildKind};
+    for (const field of Object.keys(fields)) {
+        const value = childValue(tree, field);
+        if (!value) {
+            continue;
+        }
+        switch (fields[field]) {
+            case "node":
+                setChildValue(copy, field,
+                    map(value as AnyParseNode, transform));
+                break;
+            case "list":
+                setChildValue(copy, field,
+                    map(value as AnyParseNode[], transform));
+                break;
+            case "rows":
+                setChildValue(copy, field, (value as AnyParseNode[][])
+                    .map(row => map(row, transform)));
+                break;
+        }
+    }
+    return transform(copy);
+}
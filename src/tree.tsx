@@ -2,19 +2,65 @@
 
 import utils from "./utils";
 
-import {HtmlDomNode} from "./domTree";
+import {HtmlDomNode, ToReactOptions} from "./domTree";
 import { MathDomNode } from "./mathMLTree";
 import * as React from 'react';
+import SourceLocation from "./SourceLocation";
+import {AnyParseNode} from "./parseNode";
 
 
 // To ensure that all nodes have compatible signatures for these methods.
 export interface VirtualNode {
+    classes?: string[];
+    parseNode?: AnyParseNode;   // The parse node this node was built for.
     toNode(): Node;
     toMarkup(): string;
-    toReact(key?) : JSX.Element;
+    toReact(key?, reactOptions?: ToReactOptions) : JSX.Element;
 }
 
 
+/**
+ * Describe a node by what it was built from: its parse node's type, text and
+ * place in the input if it has one, otherwise its classes.
+ */
+const describeNode = function(node: VirtualNode): string {
+    const parseNode = node.parseNode;
+    if (parseNode) {
+        let description = parseNode.type;
+        if ("text" in parseNode && typeof parseNode.text === "string") {
+            description += ":" + parseNode.text;
+        }
+        if (parseNode.loc) {
+            const loc = parseNode.loc.callSite();
+            description += `@${loc.start}-${loc.end}`;
+        }
+        return description;
+    } else if (node.classes && node.classes.length) {
+        return "." + node.classes.join(".");
+    } else {
+        return "_";
+    }
+};
+
+/**
+ * Compute React keys for a list of sibling nodes.  Keying by position would
+ * change the key of every later sibling whenever an atom is inserted or
+ * removed, remounting most of a formula that is being edited.  Instead each
+ * node is keyed by the parse node it was built from and where that is in the
+ * input, so that an edit only changes the keys of what it moves.  Siblings
+ * with the same description (e.g. built from one macro call) are told apart
+ * by the number of earlier ones.
+ */
+export const childKeys = function(children: VirtualNode[]): string[] {
+    const seen: {[k: string]: number} = {};
+    return children.map(child => {
+        const description = describeNode(child);
+        const count = seen[description] || 0;
+        seen[description] = count + 1;
+        return count ? `${description}#${count}` : description;
+    });
+};
+
 /**
  * This node represents a document fragment, which contains elements, but when
  * placed into the DOM doesn't have any representation itself. It only contains
@@ -29,6 +75,8 @@ export class DocumentFragment<ChildType extends VirtualNode>
     depth: number;
     maxFontSize: number;
     style: React.CSSProperties;          // Never used; needed for satisfying interface.
+    loc?: SourceLocation;                // Never used; needed for satisfying interface.
+    parseNode?: AnyParseNode;            // Never used; needed for satisfying interface.
 
     constructor(children: ChildType[]) {
         this.children = children;
@@ -65,8 +113,11 @@ export class DocumentFragment<ChildType extends VirtualNode>
 
         return markup;
     }
-    toReact(k?) {
-        return <>{this.children.map((x,i) => x.toReact(`${k || "x"}-${i}`))}</>
+    toReact(k?, reactOptions?: ToReactOptions) {
+        const keys = childKeys(this.children);
+        return <React.Fragment key={k}>
+            {this.children.map((x,i) => x.toReact(keys[i], reactOptions))}
+        </React.Fragment>;
     }
 
     /**
@@ -50,6 +50,34 @@ export const validUnit = function(unit: string | Measurement): boolean {
     return (unit in ptPerUnit || unit in relativeUnit || unit === "ex");
 };
 
+/**
+ * Parse a size like "2em" given as a key=value option of `command`, as in
+ * `\includegraphics[width=2em]`.  With a `defaultUnit`, a bare number is also
+ * accepted, in that unit.
+ */
+export const sizeData = function(
+    str: string,
+    command: string,
+    defaultUnit?: string,
+): Measurement {
+    if (defaultUnit && /^[-+]? *(\d+(\.\d*)?|\.\d+)$/.test(str)) {
+        return {number: +str, unit: defaultUnit};
+    }
+    const match = (/^([-+]?) *(\d+(?:\.\d*)?|\.\d+) *([a-z]{2})$/).exec(str);
+    if (!match) {
+        throw new ParseError("Invalid size: '" + str + "' in " + command);
+    }
+    const data = {
+        number: +(match[1] + match[2]), // sign + magnitude, cast to number
+        unit: match[3],
+    };
+    if (!validUnit(data)) {
+        throw new ParseError("Invalid unit: '" + data.unit + "' in " +
+            command + ".");
+    }
+    return data;
+};
+
 /*
  * Convert a "size" parse node (with numeric "number" and string "unit" fields,
  * as parsed by functions.js argType "size") into a CSS em value for the
@@ -40,11 +40,11 @@ const ESCAPE_REGEX = /[&><"']/g;
 
 /**
  * Escapes text to prevent scripting attacks.
- * [note] ewa: This is not needed because I replaced it with React code anyway.
+ * Only markup needs this: React escapes text and attributes itself, so the
+ * `toReact` methods must not escape a second time.
  */
 function escape(text: string): string {
-    return text;
-    // return String(text).replace(ESCAPE_REGEX, match => ESCAPE_LOOKUP[match]);
+    return String(text).replace(ESCAPE_REGEX, match => ESCAPE_LOOKUP[match]);
 }
 
 /**
@@ -86,6 +86,23 @@ const isCharacterBox = function(group: AnyParseNode): boolean {
         baseElem.type === "atom";
 };
 
+/**
+ * The id of the element showing the number of the equation labelled `key` by
+ * \label, which \ref{key} links to.
+ */
+const labelId = function(key: string): string {
+    return "eq:" + key.replace(/\s/g, "_");
+};
+
+/**
+ * Returns the protocol of a URL, such as "https", or "_relative" for a
+ * relative URL.
+ */
+const protocolFromUrl = function(url: string): string {
+    const protocol = /^\s*([^\\/#]*?)(?::|&#0*58|&#x0*3a)/i.exec(url);
+    return protocol !== null ? protocol[1] : "_relative";
+};
+
 export const assert = function<T>(value?: T): T {
     if (!value) {
         throw new Error('Expected non-null, but got ' + String(value));
@@ -100,4 +117,6 @@ export default {
     hyphenate,
     getBaseElem,
     isCharacterBox,
+    labelId,
+    protocolFromUrl,
 };
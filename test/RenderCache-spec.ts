@@ -0,0 +1,47 @@
+import RenderCache, {renderCacheKey} from "../src/RenderCache";
+import Settings from "../src/Settings";
+
+describe("renderCacheKey", function() {
+    it("compares macros and colorMap by value", function() {
+        const key = () => renderCacheKey("x", new Settings({
+            macros: {
+                "\\a": "b",
+                "\\c": {definition: "#1", numArgs: 1, defaultArg: "d"},
+            },
+            colorMap: {brand: "--brand"},
+        }));
+        expect(key()).toBe(key());
+    });
+
+    it("keys functions by identity", function() {
+        const trust = () => true;
+        expect(renderCacheKey("x", new Settings({trust})))
+            .toBe(renderCacheKey("x", new Settings({trust})));
+        expect(renderCacheKey("x", new Settings({trust: () => true})))
+            .not.toBe(renderCacheKey("x", new Settings({trust: () => true})));
+    });
+
+    it("tells expressions and settings apart", function() {
+        const key = renderCacheKey("x", new Settings({}));
+        expect(renderCacheKey("y", new Settings({}))).not.toBe(key);
+        expect(renderCacheKey("x", new Settings({displayMode: true})))
+            .not.toBe(key);
+        expect(renderCacheKey("x", new Settings({macros: {"\\a": "b"}})))
+            .not.toBe(key);
+    });
+});
+
+describe("RenderCache", function() {
+    it("evicts the least recently used entries", function() {
+        const cache = new RenderCache<number>(2);
+        cache.set("a", 1);
+        cache.set("b", 2);
+        expect(cache.get("a")).toBe(1);
+        cache.set("c", 3);
+        expect(cache.get("b")).toBe(undefined);
+        expect(cache.get("a")).toBe(1);
+        expect(cache.get("c")).toBe(3);
+        cache.resize(0);
+        expect(cache.get("a")).toBe(undefined);
+    });
+});
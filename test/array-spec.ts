@@ -0,0 +1,133 @@
+import {getParsed, getHTMLMarkup, getMathMLMarkup} from "./helpers";
+
+import{array} from "../src/parseNode";
+
+const getArray = function(expression: string): array {
+    const tree = getParsed(expression);
+    expect(tree[0].type).toBe("array");
+    return tree[0] as array;
+};
+
+describe("\\multicolumn", function() {
+    it("makes a cell spanning the given columns", function() {
+        const group = getArray(
+            "\\begin{array}{ccc}\\multicolumn{2}{|l}{x}&y\\\\a&b&c" +
+            "\\end{array}");
+        const cell = group.body[0][0];
+        expect(cell.type).toBe("multicolumn");
+        if (cell.type === "multicolumn") {
+            expect(cell.span).toBe(2);
+            expect(cell.cols).toEqual([
+                {type: "separator", separator: "|"},
+                {type: "align", align: "l"},
+            ]);
+        }
+        expect(group.body[0][1].type).not.toBe("multicolumn");
+    });
+
+    it("allows spaces between its arguments", function() {
+        const group = getArray(
+            "\\begin{array}{cc} \\multicolumn {2} {c} {x}\\end{array}");
+        expect(group.body[0][0].type).toBe("multicolumn");
+    });
+
+    it("is laid out as a grid", function() {
+        const markup = getHTMLMarkup(
+            "\\begin{array}{cc}\\multicolumn{2}{c}{x}\\\\a&b\\end{array}");
+        expect(markup).toContain("display:inline-grid");
+        expect(markup).toContain("grid-column:");
+    });
+
+    it("rejects invalid column counts and specifications", function() {
+        expect(() => getParsed(
+            "\\begin{array}{cc}\\multicolumn{0}{c}{x}\\end{array}"))
+            .toThrow("Invalid \\multicolumn column count: 0");
+        expect(() => getParsed(
+            "\\begin{array}{cc}\\multicolumn{2}{cc}{x}\\end{array}"))
+            .toThrow("\\multicolumn needs exactly one column alignment");
+    });
+
+    it("rejects spans wider than the rest of the row", function() {
+        expect(() => getParsed(
+            "\\begin{array}{cc}\\multicolumn{3}{c}{x}\\\\a&b\\end{array}"))
+            .toThrow("\\multicolumn spans more columns than are left");
+        expect(() => getParsed(
+            "\\begin{array}{cc}a&\\multicolumn{2}{c}{x}\\end{array}"))
+            .toThrow("\\multicolumn spans more columns than are left");
+        expect(() => getParsed(
+            "\\begin{array}{ccc}a&\\multicolumn{2}{c}{x}\\end{array}"))
+            .not.toThrow();
+    });
+
+    it("is only valid at the start of an array cell", function() {
+        expect(() => getParsed("\\multicolumn{2}{c}{x}"))
+            .toThrow("\\multicolumn valid only at the start of an array cell");
+        expect(() => getParsed(
+            "\\begin{array}{cc}a\\multicolumn{2}{c}{x}\\end{array}"))
+            .toThrow("\\multicolumn valid only at the start of an array cell");
+    });
+
+    it("builds an <mtd> with a columnspan", function() {
+        const markup = getMathMLMarkup(
+            "\\begin{array}{ccc}\\multicolumn{2}{r}{x}&y\\end{array}");
+        expect(markup).toContain(
+            "<mtd columnspan=\"2\" columnalign=\"right\">");
+    });
+});
+
+describe("\\cline", function() {
+    it("records rules under some columns before each row", function() {
+        const group = getArray(
+            "\\begin{array}{ccc}a&b&c\\\\\\cline{1-2}\\cline{3-3}d&e&f" +
+            "\\end{array}");
+        expect(group.cLinesBeforeRow).toEqual([
+            [],
+            [{start: 1, end: 2}, {start: 3, end: 3}],
+            [],
+        ]);
+        expect(group.hLinesBeforeRow).toEqual([[], [], []]);
+    });
+
+    it("is laid out as a grid", function() {
+        expect(getHTMLMarkup(
+            "\\begin{array}{cc}a&b\\\\\\cline{2-2}c&d\\end{array}"))
+            .toContain("display:inline-grid");
+    });
+
+    it("rejects invalid ranges", function() {
+        expect(() => getParsed(
+            "\\begin{array}{cc}a&b\\\\\\cline{2-1}c&d\\end{array}"))
+            .toThrow("Invalid \\cline argument: 2-1");
+        expect(() => getParsed(
+            "\\begin{array}{cc}a&b\\\\\\cline{x}c&d\\end{array}"))
+            .toThrow("Invalid \\cline argument: x");
+    });
+
+    it("is only valid within an array environment", function() {
+        expect(() => getParsed("\\cline{1-2}"))
+            .toThrow("\\cline valid only within array environment");
+    });
+});
+
+describe("Array rules in MathML", function() {
+    it("go between columns as columnlines", function() {
+        expect(getMathMLMarkup("\\begin{array}{c|c:c}a&b&c\\end{array}"))
+            .toContain("columnlines=\"solid dashed\"");
+    });
+
+    it("go between rows as rowlines", function() {
+        expect(getMathMLMarkup(
+            "\\begin{array}{c}a\\\\\\hline b\\\\\\hdashline c\\end{array}"))
+            .toContain("rowlines=\"solid dashed\"");
+    });
+
+    it("go around the array on an <menclose>", function() {
+        expect(getMathMLMarkup(
+            "\\begin{array}{|c|}\\hline a\\\\b\\\\\\hline\\end{array}"))
+            .toContain("<menclose notation=\"left right top bottom\">");
+        expect(getMathMLMarkup("\\begin{array}{|cc}a&b\\end{array}"))
+            .toContain("<menclose notation=\"left\">");
+        expect(getMathMLMarkup("\\begin{array}{c|c}a&b\\end{array}"))
+            .not.toContain("<menclose");
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot} from "react-dom/client";
+
+import {Math} from "../src/index";
+
+import{AnyParseNode} from "../src/parseNode";
+import{SourceRange} from "../src/domTree";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+const act = React.act;
+
+type Call = {type: string, range: SourceRange | null};
+
+let container: HTMLElement;
+let calls: Call[];
+const record = (node: AnyParseNode, range: SourceRange | null) => {
+    calls.push({type: node.type, range});
+};
+
+// Renders x+\frac{a}{b}, in which a is at 8-9, b at 11-12 and the fraction
+// at 2-13.
+const render = function(props: {[k: string]: typeof record}) {
+    const root = createRoot(container);
+    act(() => {
+        root.render(<Math math={"x+\\frac{a}{b}"} {...props}/>);
+    });
+    return root;
+};
+
+// The innermost element of the HTML showing `text`.
+const atom = function(text: string): Element {
+    const matches = Array.from(container.querySelectorAll(".katex-html span"))
+        .filter(span => span.textContent === text);
+    return matches[matches.length - 1];
+};
+
+const fire = function(element: Element, type: string) {
+    act(() => {
+        element.dispatchEvent(new MouseEvent(type, {bubbles: true}));
+    });
+};
+
+// Selects from the start of `from` to the end of `to`, which may come before
+// it in the document.
+const select = function(from: Element, to: Element) {
+    document.getSelection()!.setBaseAndExtent(
+        from.firstChild!, 0, to.firstChild!, to.textContent!.length);
+};
+
+beforeEach(function() {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    calls = [];
+});
+
+afterEach(function() {
+    document.getSelection()!.removeAllRanges();
+    container.remove();
+});
+
+describe("Atom callbacks", function() {
+    it("report clicks to the innermost atom", function() {
+        render({onAtomClick: record});
+        fire(atom("a"), "click");
+        fire(atom("x"), "click");
+        expect(calls).toEqual([
+            {type: "mathord", range: {start: 8, end: 9}},
+            {type: "mathord", range: {start: 0, end: 1}},
+        ]);
+    });
+
+    it("report double clicks", function() {
+        render({onAtomDoubleClick: record});
+        fire(atom("b"), "dblclick");
+        expect(calls).toEqual([
+            {type: "mathord", range: {start: 11, end: 12}},
+        ]);
+    });
+
+    it("report hovering", function() {
+        render({onAtomHover: record});
+        fire(atom("+"), "mouseover");
+        expect(calls).toEqual([
+            {type: "atom", range: {start: 1, end: 2}},
+        ]);
+    });
+
+    it("report a selection to the innermost atom containing it", function() {
+        render({onAtomSelect: record});
+        select(atom("a"), atom("b"));
+        fire(atom("b"), "mouseup");
+        select(atom("a"), atom("a"));
+        fire(atom("a"), "mouseup");
+        expect(calls).toEqual([
+            {type: "genfrac", range: {start: 2, end: 13}},
+            {type: "mathord", range: {start: 8, end: 9}},
+        ]);
+    });
+
+    it("don't report an empty selection", function() {
+        render({onAtomSelect: record});
+        fire(atom("a"), "mouseup");
+        expect(calls).toEqual([]);
+    });
+
+    it("report to the latest callbacks", function() {
+        const root = render({onAtomClick: () => {}});
+        act(() => {
+            root.render(
+                <Math math={"x+\\frac{a}{b}"} onAtomClick={record}/>);
+        });
+        fire(atom("x"), "click");
+        expect(calls).toEqual([
+            {type: "mathord", range: {start: 0, end: 1}},
+        ]);
+    });
+});
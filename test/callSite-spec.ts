@@ -0,0 +1,73 @@
+import {getParsed} from "./helpers";
+
+import{AnyParseNode} from "../src/parseNode";
+
+const macros = {
+    "\\a": "\\b x",
+    "\\b": "(#1)",
+    "\\bad": "x^1^2",
+};
+
+// The text of each node in the expression, with the range of the input it
+// stems from and whether that is where the node itself is.
+const sites = function(expression: string): [string, string, boolean][] {
+    return getParsed(expression, {macros}).map((node: AnyParseNode) => {
+        const text = "text" in node && typeof node.text === "string"
+            ? node.text : node.type;
+        const site = node.loc!.callSite();
+        return [text, expression.slice(site.start, site.end),
+            site === node.loc];
+    });
+};
+
+describe("The call site of a token", function() {
+    it("is the token itself in the input", function() {
+        expect(sites("x+y")).toEqual([
+            ["x", "x", true],
+            ["+", "+", true],
+            ["y", "y", true],
+        ]);
+    });
+
+    it("is the macro call of a token in the definition", function() {
+        expect(sites("y\\b{y}")).toEqual([
+            ["y", "y", true],
+            ["(", "\\b{y}", false],
+            ["y", "y", true],
+            [")", "\\b{y}", false],
+        ]);
+    });
+
+    it("is the outermost macro call of nested expansions", function() {
+        expect(sites("\\a+\\a")).toEqual([
+            ["(", "\\a", false],
+            ["x", "\\a", false],
+            [")", "\\a", false],
+            ["+", "+", true],
+            ["(", "\\a", false],
+            ["x", "\\a", false],
+            [")", "\\a", false],
+        ]);
+        const [open] = getParsed("\\a", {macros});
+        // The ( is in the definition of \b, which was called in that of \a.
+        expect(open.loc!.lexer.input).toBe("(#1)");
+        expect(open.loc!.origin!.lexer.input).toBe("\\b x");
+        expect(open.loc!.origin!.origin!.lexer.input).toBe("\\a");
+    });
+});
+
+describe("An error in a macro expansion", function() {
+    it("is reported at the macro call, and in the definition", function() {
+        let error;
+        try {
+            getParsed("y+\\bad", {macros});
+        } catch (e) {
+            error = e;
+        }
+        expect(error.rawMessage).toBe("Double superscript");
+        expect([error.position, error.length]).toEqual([2, 4]);
+        expect(error.expansion).toEqual(
+            {input: "x^1^2", position: 3, length: 1});
+        expect(error.message).toContain("in macro expansion");
+    });
+});
@@ -0,0 +1,111 @@
+import {getParsed, getStripped, getMarkup} from "./helpers";
+
+import{AnyParseNode, mathord, ordgroup} from "../src/parseNode";
+
+// The cells of the {CD} diagram `body`, as the nodes they hold.
+const cellsOf = function(body: string): AnyParseNode[][][] {
+    const [diagram] = getStripped(`\\begin{CD}${body}\\end{CD}`);
+    if (diagram.type !== "array") {
+        throw new Error(`Expected an array but got ${diagram.type}`);
+    }
+    return diagram.body.map(row => row.map(cell =>
+        cell.type === "styling" ? cell.body : [cell]));
+};
+
+const ord = (text: string): mathord =>
+    ({type: "mathord", mode: "math", text});
+const group = (...body: AnyParseNode[]): ordgroup =>
+    ({type: "ordgroup", mode: "math", body});
+
+describe("A {CD} diagram", function() {
+    it("puts objects and horizontal arrows in even rows", function() {
+        const [row] = cellsOf("A @>f>g> B @<<< C");
+        expect(row.length).toBe(5);
+        expect(row[0]).toEqual([ord("A")]);
+        expect(row[1]).toEqual([{
+            type: "xArrow",
+            mode: "math",
+            label: "\\\\cdrightarrow",
+            body: group(ord("f")),
+            below: group(ord("g")),
+        }]);
+        expect(row[2]).toEqual([ord("B")]);
+        expect(row[3]).toEqual([{
+            type: "xArrow",
+            mode: "math",
+            label: "\\\\cdleftarrow",
+            body: group(),
+            below: group(),
+        }]);
+        expect(row[4]).toEqual([ord("C")]);
+    });
+
+    it("lines vertical arrows up with the objects", function() {
+        const rows = cellsOf("A @>>> B \\\\ @VfVV @AAgA \\\\ C @>>> D");
+        expect(rows.length).toBe(3);
+        const [down, space, up] = rows[1];
+        expect(rows[1].length).toBe(3);
+        expect(space).toEqual([]);
+        expect(down[0].type).toBe("cdlabelparent");
+        expect(up[0].type).toBe("cdlabelparent");
+        if (down[0].type !== "cdlabelparent" ||
+            up[0].type !== "cdlabelparent") {
+            return;
+        }
+        expect(down[0].fragment).toEqual(group(
+            {type: "cdlabel", mode: "math", side: "left",
+                label: group(ord("f"))},
+            {type: "delimsizing", mode: "math", size: 2, mclass: "mord",
+                delim: "\\downarrow"},
+            {type: "cdlabel", mode: "math", side: "right", label: group()},
+        ));
+        expect(up[0].fragment).toEqual(group(
+            {type: "cdlabel", mode: "math", side: "left", label: group()},
+            {type: "delimsizing", mode: "math", size: 2, mclass: "mord",
+                delim: "\\uparrow"},
+            {type: "cdlabel", mode: "math", side: "right",
+                label: group(ord("g"))},
+        ));
+    });
+
+    it("has equals signs and empty arrows", function() {
+        const rows = cellsOf("A @= B \\\\ @| @. \\\\ C @. D");
+        expect(rows[0][1][0].type === "xArrow" && rows[0][1][0].label)
+            .toBe("\\\\cdlongequal");
+        expect(rows[1][0]).toEqual([{type: "delimsizing", mode: "math",
+            size: 2, mclass: "mord", delim: "\\Vert"}]);
+        expect(rows[1][2]).toEqual([group()]);
+        expect(rows[2][1]).toEqual([group()]);
+    });
+
+    it("builds its labels", function() {
+        const markup = getMarkup("\\begin{CD}A @>f>> B \\\\ @VgVV\\end{CD}",
+            {displayMode: true});
+        expect(markup).toContain("cd-vert-arrow");
+        expect(markup).toContain("cd-label-left");
+        expect(markup).toContain("<mi>f</mi>");
+        expect(markup).toContain("<mi>g</mi>");
+    });
+});
+
+describe("A {CD} diagram with a bad arrow", function() {
+    const expectError = function(body: string, message: string) {
+        expect(() => getParsed(`\\begin{CD}${body}\\end{CD}`))
+            .toThrow(message);
+    };
+
+    it("names the arrow characters after an unknown one", function() {
+        expectError("A @x B", "Expected one of \"<>AV=|.\" after @");
+    });
+
+    it("names the arrow characters at the end of a row", function() {
+        expectError("A @", "Expected one of \"<>AV=|.\" after @");
+    });
+
+    it("reports a label that isn't ended", function() {
+        expectError("A @>f> B", "Missing a > character to complete a CD " +
+            "arrow.");
+        expectError("A @>f @>>> B", "Missing a > character to complete a " +
+            "CD arrow.");
+    });
+});
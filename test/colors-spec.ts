@@ -0,0 +1,101 @@
+import Settings from "../src/Settings";
+import {resolveColor, parseColorSpec} from "../src/colors";
+import {getParsed, getHTMLMarkup, getMathMLMarkup} from "./helpers";
+import {find} from "../src/traverse";
+
+// The color of the first \color or \textcolor in the expression.
+const colorOf = function(expression: string, colorMap = {}): string {
+    const node = find(getParsed(expression, {colorMap}),
+        node => node.type === "color");
+    return node && node.type === "color" ? node.color : "";
+};
+
+const noColors = (macroName: string) => undefined;
+
+describe("resolveColor", function() {
+    it("resolves base colors as xcolor defines them", function() {
+        expect(resolveColor("green", noColors)).toBe("#00ff00");
+        expect(resolveColor("darkgray", noColors)).toBe("#404040");
+        expect(resolveColor("red", noColors)).toBe("#ff0000");
+    });
+
+    it("passes on other color names and HTML colors", function() {
+        expect(resolveColor("aquamarine", noColors)).toBe("aquamarine");
+        expect(resolveColor("#abc", noColors)).toBe("#abc");
+        expect(resolveColor("a1b2c3", noColors)).toBe("#a1b2c3");
+        expect(resolveColor("not a color", noColors)).toBe(null);
+    });
+
+    it("looks up defined colors", function() {
+        const lookup = (macroName: string) =>
+            macroName === "\\color@mine" ? "#113355" : undefined;
+        expect(resolveColor("mine", lookup)).toBe("#113355");
+        expect(resolveColor("mine!50", lookup)).toBe("#8899aa");
+    });
+
+    it("mixes colors", function() {
+        expect(resolveColor("red!50!blue", noColors)).toBe("#800080");
+        expect(resolveColor("black!25", noColors)).toBe("#bfbfbf");
+        expect(resolveColor("#fff!50!#000", noColors)).toBe("#808080");
+        expect(resolveColor("red!150", noColors)).toBe(null);
+        expect(resolveColor("aquamarine!50", noColors)).toBe(null);
+    });
+});
+
+describe("parseColorSpec", function() {
+    it("converts the color models of \\definecolor", function() {
+        expect(parseColorSpec("rgb", "1, 0.5, 0")).toBe("#ff8000");
+        expect(parseColorSpec("RGB", "255 128 0")).toBe("#ff8000");
+        expect(parseColorSpec("HTML", "FF8000")).toBe("#ff8000");
+        expect(parseColorSpec("gray", "0.25")).toBe("#404040");
+        expect(parseColorSpec("cmyk", "0, 1, 1, 0")).toBe("#ff0000");
+        expect(parseColorSpec("rgb", "2, 0, 0")).toBe(null);
+        expect(parseColorSpec("hsb", "0, 1, 1")).toBe(null);
+    });
+});
+
+describe("colorMap", function() {
+    const colorMap = {brand: "--brand-color", ink: "--ink"};
+
+    it("maps color names to CSS custom properties", function() {
+        expect(colorOf("\\color{brand}{x}", colorMap))
+            .toBe("var(--brand-color)");
+        expect(colorOf("\\textcolor{ ink }{x}", colorMap)).toBe("var(--ink)");
+        expect(colorOf("\\color{red}{x}", colorMap)).toBe("#ff0000");
+    });
+
+    it("takes precedence over base and defined colors", function() {
+        expect(colorOf("\\color{red}{x}", {red: "--red"})).toBe("var(--red)");
+        expect(colorOf("\\definecolor{brand}{rgb}{1,0,0}\\color{brand}{x}",
+            colorMap)).toBe("var(--brand-color)");
+    });
+
+    it("is used by \\colorlet", function() {
+        expect(colorOf("\\colorlet{accent}{brand}\\color{accent}{x}",
+            colorMap)).toBe("var(--brand-color)");
+    });
+
+    it("maps errorColor", function() {
+        expect(new Settings({colorMap, errorColor: "ink"}).errorColor)
+            .toBe("var(--ink)");
+        expect(new Settings({colorMap, errorColor: "#f00"}).errorColor)
+            .toBe("#f00");
+        expect(new Settings({colorMap}).errorColor).toBe("#cc0000");
+    });
+
+    it("colors the HTML with var()", function() {
+        expect(getHTMLMarkup("\\color{brand}{x}", {colorMap}))
+            .toContain("color:var(--brand-color)");
+    });
+
+    it("colors the MathML with a style, not an attribute", function() {
+        const markup = getMathMLMarkup(
+            "\\color{brand}{x}\\colorbox{ink}{y}\\color{red}{z}",
+            {colorMap});
+        expect(markup).toContain(
+            "<mstyle style=\"color:var(--brand-color)\">");
+        expect(markup).toContain("style=\"background-color:var(--ink)\"");
+        expect(markup).toContain("<mstyle mathcolor=\"#ff0000\">");
+        expect(markup).not.toMatch(/math(color|background)="var/);
+    });
+});
@@ -0,0 +1,124 @@
+import * as React from "react";
+import * as ReactDOMServer from "react-dom/server";
+
+import Lexer from "../src/Lexer";
+import Options from "../src/Options";
+import Settings from "../src/Settings";
+import SourceLocation from "../src/SourceLocation";
+import Style from "../src/Style";
+import {
+    Span,
+    Anchor,
+    Img,
+    Slot,
+    SymbolNode,
+    SvgNode,
+    PathNode,
+    LineNode,
+    styleMarkup,
+} from "../src/domTree";
+import {DocumentFragment} from "../src/tree";
+import {getParsed} from "./helpers";
+import buildHTML from "../src/buildHTML";
+
+import{VirtualNode} from "../src/tree";
+
+const options = new Options({style: Style.TEXT, maxSize: Infinity});
+const loc = new SourceLocation(new Lexer("x+y", new Settings({})), 0, 1);
+
+// `toMarkup` must give what React renders of `toReact`, so that markup
+// rendered without React can be hydrated.
+const expectSameMarkup = function(node: VirtualNode) {
+    expect(node.toMarkup()).toBe(
+        ReactDOMServer.renderToStaticMarkup(node.toReact()));
+};
+
+describe("toMarkup and toReact", function() {
+    it("agree for Span", function() {
+        const span = new Span(["mord", "mathnormal"],
+            [new SymbolNode("x")], options,
+            {height: "1em", marginRight: 0, top: 2});
+        span.setAttribute("id", "a&b");
+        span.loc = loc;
+        expectSameMarkup(span);
+        expectSameMarkup(new Span([], []));
+    });
+
+    it("agree for Anchor", function() {
+        const anchor = new Anchor("https://example.com/?a=1&b=\"2\"",
+            ["href"], [new SymbolNode("x", 0, 0, 0, 0, 0, ["mord"])],
+            options);
+        expectSameMarkup(anchor);
+    });
+
+    it("agree for Img", function() {
+        const img = new Img("a.png", "a <b>", {
+            height: "1em",
+            width: "2em",
+        });
+        expectSameMarkup(img);
+        img.loc = loc;
+        expectSameMarkup(img);
+    });
+
+    it("agree for empty Slot", function() {
+        const slot = new Slot("s", 1, 0.5, 2, options);
+        slot.loc = loc;
+        expectSameMarkup(slot);
+    });
+
+    it("agree for SymbolNode", function() {
+        expectSameMarkup(new SymbolNode("<&'\">"));
+        expectSameMarkup(new SymbolNode("x", 0, 0, 0.1, 0, 0, ["mord"]));
+        expectSameMarkup(
+            new SymbolNode("x", 0, 0, 0, 0, 0, [], {color: "red"}));
+        const symbol = new SymbolNode("y");
+        symbol.loc = loc;
+        expectSameMarkup(symbol);
+    });
+
+    it("agree for SvgNode, PathNode and LineNode", function() {
+        expectSameMarkup(new SvgNode([
+            new PathNode("sqrtMain"),
+            new PathNode("sqrtTall", "M0 0h1v1z"),
+            new LineNode({x1: "0", y1: "0", x2: "1", y2: "1"}),
+        ], {width: "100%", height: "1em", viewBox: "0 0 10 10"}));
+        expectSameMarkup(new PathNode("sqrtMain"));
+        expectSameMarkup(new LineNode({"stroke-width": "1"}));
+    });
+
+    it("agree for DocumentFragment", function() {
+        expectSameMarkup(new DocumentFragment([
+            new SymbolNode("x"),
+            new Span(["mord"], [new SymbolNode("y")]),
+        ]));
+        expectSameMarkup(new DocumentFragment([]));
+    });
+
+    it("agree for rendered expressions", function() {
+        for (const expression of [
+            "x^2+\\frac{a}{b}",
+            "\\sqrt{x}\\overrightarrow{AB}",
+            "\\begin{array}{c|c}a&b\\\\\\hline c&d\\end{array}",
+            "\\href{https://example.com}{x}",
+        ]) {
+            expectSameMarkup(buildHTML(
+                getParsed(expression, {trust: true}), options));
+        }
+    });
+});
+
+describe("styleMarkup", function() {
+    it("adds px to numbers, except zero and unitless properties", function() {
+        expect(styleMarkup({
+            top: 2,
+            left: 0,
+            opacity: 0.5,
+            zIndex: 3,
+            lineHeight: 1.2,
+            flex: 1,
+            fontWeight: 700,
+        })).toBe("top:2px;left:0;opacity:0.5;z-index:3;line-height:1.2;" +
+            "flex:1;font-weight:700");
+    });
+});
@@ -0,0 +1,145 @@
+import Settings from "../src/Settings";
+import ParseError from "../src/ParseError";
+import parseTree from "../src/parseTree";
+import {getParsed, getStripped, stripPositions} from "./helpers";
+
+import{AnyParseNode} from "../src/parseNode";
+
+// Parses the expression recovering from errors, and returns the tree without
+// source locations, with each error node reduced to the input it stands in
+// for and what could be parsed of it, and the messages of the errors.
+const getRecovered = function(expression: string): {
+    tree: AnyParseNode[],
+    messages: string[],
+} {
+    const errors: ParseError[] = [];
+    const tree = parseTree(expression,
+        new Settings({errorRecovery: true}), errors);
+    const reduce = (node: AnyParseNode): AnyParseNode =>
+        node.type === "error"
+            ? {text: node.text, body: node.body} as unknown as AnyParseNode
+            : node;
+    return {
+        tree: stripPositions(tree).map(reduce),
+        messages: errors.map(error => error.rawMessage),
+    };
+};
+
+// The range of the input covered by each error node in the expression.
+const errorRanges = function(expression: string): string[] {
+    return getParsed(expression, {errorRecovery: true})
+        .filter(node => node.type === "error")
+        .map(node => node.loc
+            ? expression.slice(node.loc.start, node.loc.end)
+            : "");
+};
+
+describe("Error recovery", function() {
+    it("is off by default", function() {
+        expect(() => getParsed("a\\foo b", {throwOnError: true}))
+            .toThrow("Undefined control sequence: \\foo");
+    });
+
+    it("stands in for an undefined control sequence", function() {
+        const {tree, messages} = getRecovered("a\\foo b");
+        expect(tree).toEqual([
+            ...getStripped("a"),
+            {text: "\\foo", body: []},
+            ...getStripped("b"),
+        ]);
+        expect(messages).toEqual(["Undefined control sequence: \\foo"]);
+    });
+
+    it("skips over unmatched closers", function() {
+        const {tree, messages} = getRecovered("a}b\\right)c");
+        expect(tree).toEqual([
+            ...getStripped("a"),
+            {text: "}", body: []},
+            ...getStripped("b"),
+            {text: "\\right", body: []},
+            ...getStripped(")c"),
+        ]);
+        expect(messages).toEqual(["Unexpected '}'", "Unexpected '\\right'"]);
+    });
+
+    it("puts a placeholder for a missing argument", function() {
+        const {tree, messages} = getRecovered("\\frac{a}");
+        expect(tree.length).toBe(1);
+        expect(tree[0].type === "genfrac" && tree[0].denom)
+            .toMatchObject({type: "error", text: "□", body: []});
+        expect(messages).toEqual(["Expected group after '\\frac'"]);
+    });
+
+    it("marks all the input of an atom that fails", function() {
+        const expression = "x\\includegraphics[width=1xx]{a.png}y";
+        const {tree, messages} = getRecovered(expression);
+        expect(tree).toEqual([
+            ...getStripped("x"),
+            {text: "\\includegraphics[width=1xx]{a.png}", body: []},
+            ...getStripped("y"),
+        ]);
+        expect(messages).toEqual([
+            "Invalid unit: 'xx' in \\includegraphics.",
+        ]);
+        expect(errorRanges(expression))
+            .toEqual(["\\includegraphics[width=1xx]{a.png}"]);
+    });
+
+    it("undoes the state left by an atom that fails", function() {
+        const {tree} = getRecovered("{\\def\\a{b}\\text{\\foo}}\\a");
+        expect(tree[1]).toEqual({text: "\\a", body: []});
+    });
+
+    it("closes a group that isn't closed", function() {
+        const {tree, messages} = getRecovered("a{bc");
+        expect(tree).toEqual([
+            ...getStripped("a"),
+            {text: "", body: getStripped("{bc}")},
+        ]);
+        expect(messages).toEqual(["Expected '}', got 'EOF'"]);
+    });
+
+    it("closes a \\left that isn't closed", function() {
+        const {tree, messages} = getRecovered("a\\left(b");
+        expect(tree).toEqual([
+            ...getStripped("a"),
+            {text: "", body: getStripped("\\left(b\\right.")},
+        ]);
+        expect(messages).toEqual(["Expected '\\right', got 'EOF'"]);
+    });
+
+    it("closes an environment that isn't ended", function() {
+        const {tree, messages} = getRecovered("a\\begin{matrix}b&c");
+        expect(tree).toEqual([
+            ...getStripped("a"),
+            {text: "", body: getStripped("\\begin{matrix}b&c\\end{matrix}")},
+        ]);
+        expect(messages).toEqual(["Expected '\\end', got 'EOF'"]);
+        expect(getRecovered("\\begin{matrix}b\\right)c").tree).toEqual([
+            {text: "", body: getStripped("\\begin{matrix}b\\end{matrix}")},
+            {text: "\\right", body: []},
+            ...getStripped(")c"),
+        ]);
+    });
+
+    it("keeps an environment ended by another name", function() {
+        const {tree, messages} =
+            getRecovered("\\begin{matrix}b\\end{pmatrix}c");
+        expect(tree).toEqual([
+            {text: "", body: getStripped("\\begin{matrix}b\\end{matrix}")},
+            ...getStripped("c"),
+        ]);
+        expect(messages).toEqual([
+            "Mismatch: \\begin{matrix} matched by \\end{pmatrix}",
+        ]);
+    });
+
+    it("reports each error", function() {
+        expect(getRecovered("\\foo+\\baz}").messages).toEqual([
+            "Undefined control sequence: \\foo",
+            "Undefined control sequence: \\baz",
+            "Unexpected '}'",
+        ]);
+        expect(errorRanges("\\foo+\\baz}")).toEqual(["\\foo", "\\baz", "}"]);
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot, Root} from "react-dom/client";
+
+import {Math, MathProps} from "../src/index";
+import ParseError from "../src/ParseError";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+let container: HTMLElement;
+let root: Root;
+
+beforeEach(function() {
+    container = document.createElement("div");
+    root = createRoot(container);
+});
+
+afterEach(function() {
+    React.act(() => root.unmount());
+});
+
+const render = function(props: MathProps) {
+    React.act(() => {
+        root.render(<Math {...props}/>);
+    });
+};
+
+// The message, position and length of each error passed to `onError` while
+// rendering each expression in turn, and the expressions given with them.
+const reportedErrors = function(
+    expressions: string[],
+    props: Partial<MathProps> = {},
+): [string, number | void, number | void, string][] {
+    const reported: [string, number | void, number | void, string][] = [];
+    const onError = (error: ParseError, expression: string) => {
+        reported.push(
+            [error.rawMessage, error.position, error.length, expression]);
+    };
+    expressions.forEach(math => render({math, onError, ...props}));
+    return reported;
+};
+
+describe("onError", function() {
+    it("receives the error and the range of the input at fault", function() {
+        expect(reportedErrors(["a+x^1^2"])).toEqual([
+            ["Double superscript", 5, 1, "a+x^1^2"],
+        ]);
+    });
+
+    it("is called once for each expression that fails", function() {
+        expect(reportedErrors(["x^1^2", "x^1^2", "y", "y_1_2"])).toEqual([
+            ["Double superscript", 3, 1, "x^1^2"],
+            ["Double subscript", 3, 1, "y_1_2"],
+        ]);
+    });
+
+    it("is called for each error recovered from", function() {
+        expect(reportedErrors(["\\foo+x^1^2}"], {errorRecovery: true}))
+            .toEqual([
+                ["Undefined control sequence: \\foo", 0, 4, "\\foo+x^1^2}"],
+                ["Double superscript", 8, 1, "\\foo+x^1^2}"],
+                ["Unexpected '}'", 10, 1, "\\foo+x^1^2}"],
+            ]);
+    });
+});
+
+describe("renderError", function() {
+    it("replaces the output of an expression that fails", function() {
+        render({
+            math: "x^1^2",
+            renderError: (error, expression) => <mark>
+                {expression.slice(error.position!,
+                    error.position! + error.length!)}
+            </mark>,
+        });
+        expect(container.innerHTML).toBe("<mark>^</mark>");
+    });
+
+    it("isn't used for expressions that parse", function() {
+        const renderError = jest.fn(() => <mark/>);
+        render({math: "x^1", renderError});
+        expect(renderError).not.toHaveBeenCalled();
+        expect(container.querySelector(".katex")).not.toBe(null);
+    });
+
+    it("falls back to the katex-error span", function() {
+        render({math: "x^1^2"});
+        const error = container.querySelector(".katex-error")!;
+        expect(error.textContent).toBe("x^1^2");
+        expect(error.getAttribute("title")).toContain("Double superscript");
+    });
+});
@@ -0,0 +1,80 @@
+import {getParsed} from "./helpers";
+import {expansionTree, formatExpansionTrace} from "../src/expansionTrace";
+
+import{ExpansionStep, ExpansionNode} from "../src/expansionTrace";
+
+const macros = {
+    "\\a": "\\b x",
+    "\\b": "(#1)",
+    "\\c": "\\b{\\d}",
+    "\\d": "z",
+};
+
+// The expansion steps reported while parsing the expression.
+const trace = function(expression: string): ExpansionStep[] {
+    const steps: ExpansionStep[] = [];
+    getParsed(expression, {macros, onExpand: step => steps.push(step)});
+    return steps;
+};
+
+// The names of the macros in expansion trees, with those they expanded to.
+type Names = (string | Names)[];
+const names = (nodes: ExpansionNode[]): Names => nodes.map(node =>
+    node.children.length > 0
+        ? [node.step.name, names(node.children)]
+        : node.step.name);
+
+describe("onExpand", function() {
+    it("reports each expansion with its arguments", function() {
+        const steps = trace("\\b{y}");
+        expect(steps.length).toBe(1);
+        expect(steps[0].name).toBe("\\b");
+        expect(steps[0].args.map(arg => arg.map(token => token.text)))
+            .toEqual([["y"]]);
+        expect(steps[0].tokens.map(token => token.text))
+            .toEqual(["(", "y", ")"]);
+        expect(steps[0].depth).toBe(0);
+    });
+
+    it("reports where the macro was called", function() {
+        const [step] = trace("y+\\b{y}");
+        expect(step.loc && [step.loc.start, step.loc.end]).toEqual([2, 4]);
+    });
+
+    it("nests the expansions of tokens produced by others", function() {
+        expect(trace("\\a y\\c").map(step => [step.name, step.depth]))
+            .toEqual([
+                ["\\a", 0],
+                ["\\b", 1],
+                ["\\c", 0],
+                ["\\b", 1],
+                ["\\d", 2],
+            ]);
+    });
+
+    it("isn't called without expansions", function() {
+        expect(trace("x+y")).toEqual([]);
+    });
+});
+
+describe("expansionTree", function() {
+    it("arranges a trace into trees", function() {
+        expect(names(expansionTree(trace("\\a\\c\\d")))).toEqual([
+            ["\\a", ["\\b"]],
+            ["\\c", [["\\b", ["\\d"]]]],
+            "\\d",
+        ]);
+    });
+});
+
+describe("formatExpansionTrace", function() {
+    it("shows one indented line per expansion", function() {
+        expect(formatExpansionTrace(trace("\\a\\c"))).toBe([
+            "\\a → \\b x",
+            "  \\b{x} → (x)",
+            "\\c → \\b{\\d}",
+            "  \\b{\\d} → (\\d)",
+            "    \\d → z",
+        ].join("\n"));
+    });
+});
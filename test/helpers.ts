@@ -0,0 +1,65 @@
+// Helpers shared by the specs: parse and build expressions with the given
+// settings, as the entry points do.
+import Settings from "../src/Settings";
+import parseTree from "../src/parseTree";
+import {buildTree, buildHTMLTree} from "../src/buildTree";
+
+import{SettingsOptions} from "../src/Settings";
+import{AnyParseNode} from "../src/parseNode";
+
+export const getParsed = function(
+    expression: string,
+    options: SettingsOptions = {},
+): AnyParseNode[] {
+    return parseTree(expression, new Settings(options));
+};
+
+// The markup of an expression, with both its MathML and its HTML.
+export const getMarkup = function(
+    expression: string,
+    options: SettingsOptions = {},
+): string {
+    const settings = new Settings(options);
+    return buildTree(parseTree(expression, settings), expression, settings)
+        .toMarkup();
+};
+
+// The markup of the HTML of an expression only.
+export const getHTMLMarkup = function(
+    expression: string,
+    options: SettingsOptions = {},
+): string {
+    const settings = new Settings(options);
+    return buildHTMLTree(parseTree(expression, settings), expression, settings)
+        .toMarkup();
+};
+
+// The markup of the MathML of an expression only.
+export const getMathMLMarkup = function(
+    expression: string,
+    options: SettingsOptions = {},
+): string {
+    const markup = getMarkup(expression, options);
+    return markup.slice(markup.indexOf("<math"),
+        markup.indexOf("</math>") + "</math>".length);
+};
+
+// Removes the source locations from a parse tree, so that it can be compared
+// with that of another expression.
+export const stripPositions = function<T>(tree: T): T {
+    if (Array.isArray(tree)) {
+        tree.forEach(stripPositions);
+    } else if (tree && typeof tree === "object") {
+        delete (tree as {loc?: unknown}).loc;
+        Object.keys(tree).forEach(key => stripPositions(tree[key]));
+    }
+    return tree;
+};
+
+// Parses the expression, without source locations.
+export const getStripped = function(
+    expression: string,
+    options: SettingsOptions = {},
+): AnyParseNode[] {
+    return stripPositions(getParsed(expression, options));
+};
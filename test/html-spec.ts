@@ -0,0 +1,69 @@
+import {getParsed, getHTMLMarkup} from "./helpers";
+
+import{TrustContext} from "../src/Settings";
+
+const trusted = {trust: true, strict: "ignore" as "ignore"};
+
+describe("\\htmlClass, \\htmlId, \\htmlStyle and \\htmlData", function() {
+    it("set the attributes of a span", function() {
+        expect(getHTMLMarkup("\\htmlClass{foo bar}{x}", trusted))
+            .toContain("class=\"foo bar\"");
+        expect(getHTMLMarkup("\\htmlId{eq-1}{x}", trusted))
+            .toContain("id=\"eq-1\"");
+        expect(getHTMLMarkup("\\htmlStyle{color: red; --gap: 1em}{x}",
+            trusted)).toContain("style=\"color:red;--gap:1em\"");
+        expect(getHTMLMarkup("\\htmlData{foo=a, Bar-Baz=b}{x}", trusted))
+            .toContain("data-foo=\"a\" data-bar-baz=\"b\"");
+    });
+
+    it("keep quoted and parenthesised style values whole", function() {
+        const tree = getParsed(
+            "\\htmlStyle{background:url(\"a;b\"); content: 'c;d'}{x}",
+            trusted);
+        expect(tree[0].type === "html" && tree[0].attributes).toEqual({
+            style: "background:url(\"a;b\"); content: 'c;d'",
+        });
+        expect(getHTMLMarkup(
+            "\\htmlStyle{background:url(a;b)}{x}", trusted))
+            .toContain("style=\"background:url(a;b)\"");
+    });
+
+    it("reject invalid arguments", function() {
+        expect(() => getParsed("\\htmlStyle{color}{x}", trusted))
+            .toThrow("Invalid CSS declaration 'color'");
+        expect(() => getParsed("\\htmlData{=a}{x}", trusted))
+            .toThrow("Invalid \\htmlData attribute '=a'");
+    });
+
+    it("reject empty arguments", function() {
+        for (const command of
+                ["\\htmlClass", "\\htmlId", "\\htmlStyle", "\\htmlData"]) {
+            expect(() => getParsed(command + "{ }{x}", trusted))
+                .toThrow(command + " needs a non-empty first argument");
+        }
+    });
+});
+
+describe("The trust setting for \\htmlClass etc.", function() {
+    it("is off by default", function() {
+        const tree = getParsed("\\htmlClass{foo}{x}", {strict: "ignore"});
+        expect(tree[0].type).toBe("color");
+        expect(getHTMLMarkup("\\htmlClass{foo}{x}", {strict: "ignore"}))
+            .not.toContain("foo");
+    });
+
+    it("calls a function with the command and its argument", function() {
+        const contexts: TrustContext[] = [];
+        const trust = (context: TrustContext) => {
+            contexts.push(context);
+            return context.command === "\\htmlId";
+        };
+        const tree = getParsed("\\htmlClass{foo}{x}\\htmlId{bar}{y}",
+            {trust, strict: "ignore"});
+        expect(contexts).toEqual([
+            {command: "\\htmlClass", argument: "foo"},
+            {command: "\\htmlId", argument: "bar"},
+        ]);
+        expect(tree.map(node => node.type)).toEqual(["color", "html"]);
+    });
+});
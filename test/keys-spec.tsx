@@ -0,0 +1,65 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot} from "react-dom/client";
+
+import {Math} from "../src/index";
+import {childKeys} from "../src/tree";
+import {assertSpan} from "../src/domTree";
+import {getParsed} from "./helpers";
+import buildHTML from "../src/buildHTML";
+import Options from "../src/Options";
+import Style from "../src/Style";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+const options = new Options({style: Style.TEXT, maxSize: Infinity});
+
+// The keys of the nodes in the first base of an expression.
+const baseKeys = function(expression: string): string[] {
+    const base =
+        assertSpan(buildHTML(getParsed(expression), options).children[0]);
+    return childKeys(base.children);
+};
+
+describe("childKeys", function() {
+    it("keys nodes by their parse node and place in the input", function() {
+        expect(baseKeys("x+\\frac{a}{b}")).toEqual([
+            ".strut", "mathord:x@0-1", ".mspace", "atom:+@1-2", ".mspace#1",
+        ]);
+    });
+
+    it("tells apart nodes built from one macro call", function() {
+        expect(baseKeys("\\def\\xx{xx}\\xx")).toEqual([
+            ".strut", "mathord:x@11-14", "mathord:x@11-14#1",
+        ]);
+    });
+});
+
+describe("React keys", function() {
+    it("follow the input when an identical atom is inserted", function() {
+        const container = document.createElement("div");
+        const root = createRoot(container);
+        const render = (math: string) => React.act(() => {
+            root.render(<Math math={math}/>);
+        });
+        const glyphs = () => Array.from(
+            container.querySelectorAll(".katex-html .mord"));
+
+        render("a+xx");
+        const [a, x1, x2] = glyphs();
+        render("a+xxx");
+        const after = glyphs();
+        expect(after.map(glyph => glyph.textContent))
+            .toEqual(["a", "x", "x", "x"]);
+        // The atoms at the same place in the input keep their elements, so
+        // the element of the last one is new.
+        expect(after[0]).toBe(a);
+        expect(after[1]).toBe(x1);
+        expect(after[2]).toBe(x2);
+        expect([a, x1, x2]).not.toContain(after[3]);
+        React.act(() => root.unmount());
+    });
+});
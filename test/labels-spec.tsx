@@ -0,0 +1,93 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot} from "react-dom/client";
+
+import {Math, MathDocument} from "../src/index";
+import {getParsed} from "./helpers";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("A \\label in an equation without a number", function() {
+    it("is reported", function() {
+        expect(() => getParsed("a\\label{x}", {strict: "error"}))
+            .toThrow("\\label{x} is in an equation without a number " +
+                "[unnumberedLabel]");
+        expect(() => getParsed("a\\label{x}",
+            {strict: "error", displayMode: true, numberEquations: true}))
+            .not.toThrow();
+    });
+
+    it("is reported in unnumbered rows", function() {
+        expect(() => getParsed(
+            "\\begin{align}a\\label{x}\\notag\\\\b\\end{align}",
+            {strict: "error", displayMode: true}))
+            .toThrow("\\label{x} is in an equation without a number " +
+                "[unnumberedLabel]");
+        expect(() => getParsed("\\begin{align}a\\label{x}\\end{align}",
+            {strict: "error", displayMode: true})).not.toThrow();
+    });
+});
+
+describe("\\ref and \\eqref in a MathDocument", function() {
+    let container: HTMLElement;
+
+    beforeEach(function() {
+        container = document.createElement("div");
+        document.body.appendChild(container);
+    });
+
+    afterEach(function() {
+        container.remove();
+    });
+
+    // Renders the formulas in a numbered document, and returns the text of
+    // each once the document has settled.  The tags of the rows of an
+    // environment follow its body.
+    const renderDocument = async function(
+        formulas: string[],
+    ): Promise<string[]> {
+        const root = createRoot(container);
+        await React.act(async () => {
+            root.render(<MathDocument numberEquations>
+                {formulas.map((math, i) =>
+                    <div key={i}><Math math={math} displayMode/></div>)}
+            </MathDocument>);
+        });
+        // Formulas re-rendered with the labels of others settle in turn.
+        for (let i = 0; i < formulas.length; i++) {
+            await React.act(async () => {});
+        }
+        const text = Array.from(container.querySelectorAll(".katex-html"))
+            .map(html => (html.textContent || "").replace(/\u200b/g, ""));
+        await React.act(async () => root.unmount());
+        return text;
+    };
+
+    it("number labelled equations across formulas", async function() {
+        expect(await renderDocument([
+            "a\\label{first}",
+            "b",
+            "c\\label{third}",
+            "\\ref{first}, \\eqref{third}",
+        ])).toEqual(["a(1)", "b(2)", "c(3)", "1,(3)(4)"]);
+    });
+
+    it("refer to labels further on", async function() {
+        expect(await renderDocument([
+            "\\eqref{last}\\notag",
+            "\\begin{align}x\\label{row}\\\\y\\end{align}",
+            "z\\label{last}",
+            "\\ref{row}\\tag{*}",
+        ])).toEqual(["(3)", "xy(1)(2)", "z(3)", "1(*)"]);
+    });
+
+    it("refer to the tag given by \\tag", async function() {
+        expect(await renderDocument([
+            "a\\tag{A}\\label{a}",
+            "\\eqref{a}, \\ref{b}\\notag",
+        ])).toEqual(["a(A)", "(A),??"]);
+    });
+});
@@ -0,0 +1,88 @@
+import {getParsed, getStripped} from "./helpers";
+
+describe("\\edef", function() {
+    it("expands its body when defined", function() {
+        expect(getStripped("\\def\\x{a}\\edef\\y{\\x}\\def\\x{b}\\y"))
+            .toEqual(getStripped("a"));
+    });
+
+    it("stores \\noexpand\\macro as \\macro, expandable later", function() {
+        expect(getStripped("\\edef\\a{\\noexpand\\x}\\def\\x{u}\\a"))
+            .toEqual(getStripped("u"));
+        expect(getStripped(
+            "\\def\\x{u}\\edef\\a{\\noexpand\\x}\\def\\x{v}\\a"))
+            .toEqual(getStripped("v"));
+    });
+});
+
+describe("The macros setting", function() {
+    it("takes bodies as text, with as many arguments as they use", function() {
+        expect(getStripped("\\pair{a}{b}",
+            {macros: {"\\pair": "(#1,#2)"}}))
+            .toEqual(getStripped("(a,b)"));
+    });
+
+    it("takes bodies with a number of arguments", function() {
+        const macros = {"\\first": {definition: "#1", numArgs: 2}};
+        expect(getStripped("\\first{a}{b}c", {macros}))
+            .toEqual(getStripped("ac"));
+    });
+
+    it("takes bodies with a default argument", function() {
+        const macros = {
+            "\\x": {definition: "x_{#1}^{#2}", numArgs: 2, defaultArg: "0"},
+        };
+        expect(getStripped("\\x{2}", {macros}))
+            .toEqual(getStripped("x_{0}^{2}"));
+        expect(getStripped("\\x[1]{2}", {macros}))
+            .toEqual(getStripped("x_{1}^{2}"));
+    });
+
+    it("counts the arguments of bodies with a default argument", function() {
+        const macros = {"\\x": {definition: "x_{#1}", defaultArg: "n"}};
+        expect(getStripped("\\x", {macros})).toEqual(getStripped("x_{n}"));
+        expect(getStripped("\\x[1]", {macros})).toEqual(getStripped("x_{1}"));
+    });
+
+    it("rejects a default argument without arguments", function() {
+        const macros = {"\\x": {definition: "x", defaultArg: "n"}};
+        expect(() => getStripped("\\x", {macros}))
+            .toThrow("Macro \\x has a default argument but takes no arguments");
+    });
+});
+
+describe("A \\def with delimited parameters", function() {
+    it("takes arguments up to their delimiters", function() {
+        expect(getStripped("\\def\\pair(#1,#2){#2;#1}\\pair(ab,cd)"))
+            .toEqual(getStripped("cd;ab"));
+        expect(getStripped("\\def\\upto#1.{[#1]}\\upto xy.z"))
+            .toEqual(getStripped("[xy]z"));
+    });
+
+    it("mixes delimited and undelimited parameters", function() {
+        expect(getStripped("\\def\\f#1#2|{#1(#2)}\\f ab c|d"))
+            .toEqual(getStripped("a(b c)d"));
+    });
+
+    it("ignores delimiters inside braces", function() {
+        expect(getStripped("\\def\\f#1.{(#1)}\\f{a.b}c.d"))
+            .toEqual(getStripped("({a.b}c)d"));
+    });
+
+    it("strips the braces around an argument of one group", function() {
+        expect(getStripped("\\def\\f#1.{(#1)}\\f{a}.\\f{a}{b}."))
+            .toEqual(getStripped("(a)({a}{b})"));
+    });
+
+    it("reports a use that doesn't match the definition", function() {
+        expect(() => getParsed("\\def\\pair(#1,#2){}\\pair[a,b)"))
+            .toThrow("Use of macro doesn't match its definition: " +
+                "expected '('");
+        expect(() => getParsed("\\def\\f#1.{}\\f ab"))
+            .toThrow("End of input in macro argument: delimiter '.' " +
+                "not found");
+        expect(() => getParsed("{\\def\\f#1.{}\\f a}."))
+            .toThrow("Unexpected '}' in macro argument: delimiter '.' " +
+                "not found");
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot, Root} from "react-dom/client";
+
+import {Math, MathDocument, MathProps} from "../src/index";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+type Formula = MathProps & {key: string};
+
+let container: HTMLElement;
+let root: Root;
+
+beforeEach(function() {
+    container = document.createElement("div");
+    document.body.appendChild(container);
+    root = createRoot(container);
+});
+
+afterEach(function() {
+    React.act(() => root.unmount());
+    container.remove();
+});
+
+// Renders the formulas in a document with `macros`, and returns the text of
+// each once the document has settled.  An undefined macro shows its name.
+const render = async function(
+    formulas: Formula[],
+    macros?: {[name: string]: string},
+): Promise<string[]> {
+    await React.act(async () => {
+        root.render(<MathDocument macros={macros}>
+            {formulas.map(({key, ...props}) =>
+                <div key={key}><Math {...props}/></div>)}
+        </MathDocument>);
+    });
+    // Formulas re-rendered with the macros of others settle in turn.
+    for (let i = 0; i < formulas.length; i++) {
+        await React.act(async () => {});
+    }
+    return Array.from(container.querySelectorAll(".katex-html"))
+        .map(html => html.textContent!);
+};
+
+describe("A MathDocument", function() {
+    it("shares macros with the formulas after them", async function() {
+        expect(await render([
+            {key: "a", math: "\\a"},
+            {key: "b", math: "\\def\\a{A}"},
+            {key: "c", math: "\\a\\gdef\\a{B}"},
+            {key: "d", math: "\\a"},
+        ])).toEqual(["\\a", "", "A", "B"]);
+    });
+
+    it("defines its macros before the first formula", async function() {
+        expect(await render([
+            {key: "a", math: "\\a"},
+            {key: "b", math: "\\def\\a{B}\\a"},
+        ], {"\\a": "A"})).toEqual(["A", "B"]);
+    });
+
+    it("re-renders the formulas after one that changes", async function() {
+        const formulas = [
+            {key: "a", math: "\\newcommand\\a{A}"},
+            {key: "b", math: "\\a"},
+            {key: "c", math: "x"},
+        ];
+        expect(await render(formulas)).toEqual(["", "A", "x"]);
+        formulas[0] = {key: "a", math: "\\newcommand\\a{B}"};
+        expect(await render(formulas)).toEqual(["", "B", "x"]);
+        formulas[0] = {key: "a", math: "x"};
+        expect(await render(formulas)).toEqual(["x", "\\a", "x"]);
+    });
+
+    it("follows formulas that move in the page", async function() {
+        const definition = {key: "a", math: "\\def\\a{A}"};
+        const use = {key: "b", math: "\\a"};
+        expect(await render([definition, use])).toEqual(["", "A"]);
+        expect(await render([use, definition])).toEqual(["\\a", ""]);
+    });
+
+    it("doesn't pass on the macros of a formula's own", async function() {
+        expect(await render([
+            {key: "a", math: "\\a\\b\\def\\c{C}", macros: {
+                "\\a": "a",
+                "\\b": "b",
+            }},
+            {key: "b", math: "\\a\\c"},
+            {key: "c", math: "\\b"},
+        ], {"\\a": "A"})).toEqual(["ab", "AC", "\\b"]);
+    });
+});
@@ -0,0 +1,65 @@
+import {getParsed, getStripped} from "./helpers";
+
+describe("\\newenvironment", function() {
+    it("defines an environment by its begin and end code", function() {
+        expect(getStripped(
+            "\\newenvironment{smallcases}" +
+            "{\\left\\{\\begin{matrix}}{\\end{matrix}\\right.}" +
+            "\\begin{smallcases}a\\\\b\\end{smallcases}"))
+            .toEqual(getStripped("\\begingroup" +
+                "\\left\\{\\begin{matrix}a\\\\b\\end{matrix}\\right." +
+                "\\endgroup"));
+    });
+
+    it("passes arguments to the begin code", function() {
+        expect(getStripped(
+            "\\newenvironment{pair}[2]{(#1,#2}{)}\\begin{pair}{a}{b}c\\end{pair}"))
+            .toEqual(getStripped("\\begingroup(a,bc)\\endgroup"));
+    });
+
+    it("scopes definitions like macros", function() {
+        expect(() => getParsed(
+            "{\\newenvironment{e}{a}{b}}\\begin{e}\\end{e}"))
+            .toThrow("No such environment: e");
+    });
+
+    it("takes definitions from the macros setting", function() {
+        expect(getStripped("\\begin{e}x\\end{e}", {macros: {
+            "\\begin{e}": "(",
+            "\\end{e}": ")",
+        }})).toEqual(getStripped("\\begingroup(x)\\endgroup"));
+    });
+
+    it("doesn't redefine environments", function() {
+        expect(() => getParsed("\\newenvironment{matrix}{a}{b}"))
+            .toThrow("\\newenvironment{matrix} attempting to redefine " +
+                "matrix; use \\renewenvironment");
+        expect(() => getParsed("\\renewenvironment{e}{a}{b}"))
+            .toThrow("\\renewenvironment{e} when environment e does not " +
+                "yet exist; use \\newenvironment");
+    });
+});
+
+describe("A default argument", function() {
+    it("makes the first argument of \\newcommand optional", function() {
+        expect(getStripped(
+            "\\newcommand{\\norm}[2][2]{\\|#2\\|_{#1}}\\norm{x}\\norm[1]{y}"))
+            .toEqual(getStripped("\\|x\\|_{2}\\|y\\|_{1}"));
+    });
+
+    it("makes the first argument of \\newenvironment optional", function() {
+        expect(getStripped(
+            "\\newenvironment{e}[1][a]{#1(}{)}" +
+            "\\begin{e}x\\end{e}\\begin{e}[b]y\\end{e}"))
+            .toEqual(getStripped("\\begingroup a(x)\\endgroup\\begingroup b(y)\\endgroup"));
+    });
+
+    it("needs an argument to be the default of", function() {
+        expect(() => getParsed("\\newcommand{\\x}[0][a]{b}"))
+            .toThrow("\\newcommand{\\x} has a default argument but takes " +
+                "no arguments");
+        expect(() => getParsed("\\newenvironment{e}[0][a]{b}{c}"))
+            .toThrow("\\newenvironment{e} has a default argument but takes " +
+                "no arguments");
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment jsdom
+ */
+import * as React from "react";
+import {createRoot} from "react-dom/client";
+
+import {Math} from "../src/index";
+import {getParsed, getStripped, getHTMLMarkup} from "./helpers";
+
+(globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean})
+    .IS_REACT_ACT_ENVIRONMENT = true;
+
+describe("\\reactslot", function() {
+    it("is sized like a capital letter by default", function() {
+        expect(getStripped("\\reactslot{chart}")).toEqual([{
+            type: "reactslot",
+            mode: "math",
+            name: "chart",
+            height: {number: 0.7, unit: "em"},
+            depth: {number: 0, unit: "em"},
+            width: {number: 0, unit: "em"},
+        }]);
+    });
+
+    it("takes its size from key=value options", function() {
+        const [slot] = getParsed(
+            "\\reactslot[height=2em, depth = 0.5ex,width=-1pt]{ chart }");
+        expect(slot.type === "reactslot" && slot).toMatchObject({
+            name: "chart",
+            height: {number: 2, unit: "em"},
+            depth: {number: 0.5, unit: "ex"},
+            width: {number: -1, unit: "pt"},
+        });
+        expect(getStripped("\\reactslot[height=2em,]{chart}"))
+            .toEqual(getStripped("\\reactslot[height=2em]{chart}"));
+    });
+
+    it("is allowed in text", function() {
+        expect(() => getParsed("\\text{a \\reactslot{chart}}")).not.toThrow();
+    });
+
+    it("renders an empty box outside of React", function() {
+        const markup = getHTMLMarkup("\\reactslot[height=1em,depth=1em]{c}");
+        expect(markup).toContain('<span class="mord reactslot" style="' +
+            'display:inline-block;height:2em;vertical-align:-1em" ' +
+            'data-slot="c"></span>');
+    });
+});
+
+describe("\\reactslot with bad options", function() {
+    const expectError = function(expression: string, message: string) {
+        expect(() => getParsed(expression)).toThrow(message);
+    };
+
+    it("needs a slot name", function() {
+        expectError("\\reactslot{ }", "\\reactslot needs a slot name");
+    });
+
+    it("needs each option to be key=value", function() {
+        expectError("\\reactslot[height]{c}",
+            "Invalid option: 'height' in \\reactslot, expected key=value");
+        expectError("\\reactslot[height=1em=2em]{c}",
+            "Invalid option: 'height=1em=2em' in \\reactslot, expected " +
+            "key=value");
+    });
+
+    it("knows only its own keys", function() {
+        expectError("\\reactslot[alt=x]{c}",
+            "Invalid key: 'alt' in \\reactslot");
+    });
+
+    it("needs sizes with units", function() {
+        expectError("\\reactslot[width=2]{c}",
+            "Invalid size: '2' in \\reactslot");
+        expectError("\\reactslot[width=2em3]{c}",
+            "Invalid size: '2em3' in \\reactslot");
+        expectError("\\reactslot[width=2zz]{c}",
+            "Invalid unit: 'zz' in \\reactslot.");
+    });
+});
+
+describe("The slots prop", function() {
+    it("fills each slot with the element of its name", function() {
+        const container = document.createElement("div");
+        const root = createRoot(container);
+        React.act(() => {
+            root.render(<Math
+                math={"\\reactslot{a}+\\text{\\reactslot{b}}+\\reactslot{c}"}
+                slots={{a: <button>A</button>, b: <i>B</i>}}
+            />);
+        });
+        const slots = Array.from(container.querySelectorAll(".reactslot"));
+        expect(slots.map(slot => [slot.getAttribute("data-slot"),
+            slot.innerHTML])).toEqual([
+            ["a", "<button>A</button>"],
+            ["b", "<i>B</i>"],
+            ["c", ""],
+        ]);
+        React.act(() => root.unmount());
+    });
+});
@@ -0,0 +1,33 @@
+import {getHTMLMarkup} from "./helpers";
+
+describe("The sourceRanges setting", function() {
+    it("is off by default, leaving the output as it was", function() {
+        const markup = getHTMLMarkup("x+\\frac{a}{b}");
+        expect(markup).not.toContain("data-source-start");
+        // Plain glyphs aren't wrapped in spans of their own.
+        expect(getHTMLMarkup("1")).toContain(
+            "<span class=\"mord\">1</span>");
+    });
+
+    it("records the range of the input each node was built from", function() {
+        const markup = getHTMLMarkup("x+\\frac{a}{b}", {sourceRanges: true});
+        expect(markup).toContain(
+            "data-source-start=\"0\" data-source-end=\"1\">x</span>");
+        expect(markup).toContain(
+            "data-source-start=\"2\" data-source-end=\"13\"");
+        expect(getHTMLMarkup("1", {sourceRanges: true})).toContain(
+            "<span class=\"mord\" data-source-start=\"0\" " +
+            "data-source-end=\"1\">1</span>");
+    });
+
+    it("maps macro expansions to the macro call", function() {
+        const markup = getHTMLMarkup("a\\foo", {
+            sourceRanges: true,
+            macros: {"\\foo": "xy"},
+        });
+        expect(markup).toContain(
+            "data-source-start=\"1\" data-source-end=\"5\">x</span>");
+        expect(markup).toContain(
+            "data-source-start=\"1\" data-source-end=\"5\">y</span>");
+    });
+});
@@ -0,0 +1,84 @@
+import buildHTML from "../src/buildHTML";
+import Options from "../src/Options";
+import Settings from "../src/Settings";
+import Style from "../src/Style";
+import parseTree from "../src/parseTree";
+import {getParsed, getMarkup, getHTMLMarkup, getMathMLMarkup}
+    from "./helpers";
+
+import{array} from "../src/parseNode";
+
+const display = {displayMode: true};
+
+// The number of elements with the class `tag` in the markup.
+const countTags = function(markup: string): number {
+    return (markup.match(/class="tag"/g) || []).length;
+};
+
+describe("Tagged rows", function() {
+    it("go in a tag column when the environment is the display", function() {
+        const tree = getParsed(
+            "\\begin{align}a\\tag{1}\\\\b\\tag{2}\\end{align}", display);
+        expect(tree.length).toBe(1);
+        expect((tree[0] as array).tagColumn).toBe(true);
+        expect(countTags(getHTMLMarkup(
+            "\\begin{align}a\\tag{1}\\\\b\\tag{2}\\end{align}", display)))
+            .toBe(1);
+    });
+
+    it("need the environment to be the whole display", function() {
+        expect(() => getParsed(
+            "x\\begin{align}a\\tag{1}\\end{align}y", display))
+            .toThrow("An environment with tagged rows must be the whole " +
+                "display");
+        expect(() => getParsed(
+            "\\begin{align}a\\tag{1}\\end{align}\\tag{z}", display))
+            .toThrow("An environment with tagged rows must be the whole " +
+                "display");
+    });
+
+    it("include numbered rows", function() {
+        expect(() => getParsed("x\\begin{align}a\\end{align}", display))
+            .toThrow("An environment with tagged rows must be the whole " +
+                "display");
+        expect(() => getParsed(
+            "x\\begin{align}a\\notag\\end{align}", display)).not.toThrow();
+    });
+
+    it("allow untagged environments anywhere", function() {
+        expect(() => getParsed(
+            "x\\begin{align*}a\\end{align*}y", display)).not.toThrow();
+    });
+
+    it("aren't confused with elements of class tag", function() {
+        const options = {displayMode: true, trust: true};
+        const expression = "a+\\htmlClass{tag}{b}";
+        const settings = new Settings(options);
+        const htmlNode = buildHTML(
+            parseTree(expression, settings),
+            new Options({style: Style.DISPLAY, maxSize: settings.maxSize}));
+        const last = htmlNode.children[htmlNode.children.length - 1];
+        expect(last.hasClass("base")).toBe(true);
+        expect(last.hasClass("tag")).toBe(false);
+    });
+});
+
+describe("Tagged rows with leqno", function() {
+    it("are tagged on the left", function() {
+        const expression = "\\begin{align}a\\tag{1}\\\\b\\end{align}";
+        expect(getHTMLMarkup(expression, {displayMode: true, leqno: true}))
+            .toContain("text-align:left");
+        expect(getHTMLMarkup(expression, display)).toContain("text-align:right");
+        expect(getMathMLMarkup(expression, {displayMode: true, leqno: true}))
+            .toContain("<mtable side=\"left\"");
+    });
+});
+
+describe("Displays with fleqn", function() {
+    it("are set flush left by the stylesheet", function() {
+        const markup = getMarkup("\\begin{align}a\\tag{1}\\end{align}",
+            {displayMode: true, fleqn: true});
+        expect(markup).toContain("class=\"katex-display fleqn\"");
+        expect(markup).not.toContain("padding-left");
+    });
+});
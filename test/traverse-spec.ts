@@ -0,0 +1,83 @@
+import functions from "../src/functions";
+import environments from "../src/environments";
+import {_htmlGroupBuilders, _mathmlGroupBuilders} from "../src/defineFunction";
+import {childFields, children, visit, map} from "../src/traverse";
+import {getParsed} from "./helpers";
+
+import{AnyParseNode} from "../src/parseNode";
+
+// Whether `value` looks like a parse node, or a list or rows of them.
+const holdsNodes = function(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0 && value.every(holdsNodes);
+    }
+    return !!value && typeof value === "object" &&
+        typeof (value as {type?: unknown}).type === "string" &&
+        typeof (value as {mode?: unknown}).mode === "string";
+};
+
+describe("childFields", function() {
+    it("lists every node type made by functions and environments", function() {
+        const types = new Set<string>([
+            ...Object.keys(functions).map(name => functions[name].type),
+            ...Object.keys(environments).map(name => environments[name].type),
+            ...Object.keys(_htmlGroupBuilders),
+            ...Object.keys(_mathmlGroupBuilders),
+        ]);
+        for (const type of types) {
+            if (type) {
+                expect(childFields).toHaveProperty([type]);
+            }
+        }
+    });
+
+    it("lists every field holding nodes", function() {
+        const tree = getParsed(
+            "\\frac{a}{b}+\\sqrt[3]{x^2_i}\\left(\\overbrace{y}^{n}\\right)" +
+            "\\color{red}{z}\\textcolor{blue}{w}\\mathrm{d}\\text{t $u$}" +
+            "\\begin{array}{c}\\multicolumn{1}{c}{p}\\end{array}" +
+            "\\xrightarrow[q]{r}\\mathchoice{1}{2}{3}{4}\\hphantom{h}" +
+            "\\operatorname{f}\\raisebox{1em}{v}\\underline{s}\\tag{7}",
+            {displayMode: true});
+        visit(tree, node => {
+            const fields = childFields[node.type];
+            const values = node as unknown as {[field: string]: unknown};
+            for (const field of Object.keys(values)) {
+                if (field !== "loc" && holdsNodes(values[field])) {
+                    expect([node.type, field in fields])
+                        .toEqual([node.type, true]);
+                }
+            }
+        });
+    });
+});
+
+describe("children and map", function() {
+    const tree = getParsed("\\frac{a}{b}\\begin{matrix}c&d\\end{matrix}");
+
+    it("go through every node", function() {
+        const types: string[] = [];
+        visit(tree, node => {
+            types.push(node.type);
+        });
+        expect(types.filter(type => type === "mathord").length).toBe(4);
+        expect(children(tree[0]).map(node => node.type))
+            .toEqual(["ordgroup", "ordgroup"]);
+    });
+
+    it("copy the tree without changing it", function() {
+        const renamed = map(tree, node => node.type === "mathord" ?
+            {...node, text: node.text.toUpperCase()} : node);
+        const texts = (nodes: AnyParseNode[]) => {
+            const result: string[] = [];
+            visit(nodes, node => {
+                if (node.type === "mathord") {
+                    result.push(node.text);
+                }
+            });
+            return result;
+        };
+        expect(texts(renamed)).toEqual(["A", "B", "C", "D"]);
+        expect(texts(tree)).toEqual(["a", "b", "c", "d"]);
+    });
+});
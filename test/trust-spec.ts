@@ -0,0 +1,140 @@
+import {visit} from "../src/traverse";
+import {getParsed, getHTMLMarkup, getStripped} from "./helpers";
+
+import{TrustContext} from "../src/Settings";
+import{AnyParseNode} from "../src/parseNode";
+
+const untrusted = {trust: false, strict: "ignore" as "ignore"};
+
+// The text of the ords of a tree.
+const textOf = function(tree: AnyParseNode[]): string {
+    let text = "";
+    visit(tree, node => {
+        if (node.type === "textord" || node.type === "mathord") {
+            text += node.text;
+        }
+    });
+    return text;
+};
+
+describe("The default trust", function() {
+    it("renders \\href, \\url and \\includegraphics as before", function() {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+        try {
+            expect(getHTMLMarkup("\\href{https://example.com}{ab}"))
+                .toContain("<a href=\"https://example.com\"");
+            expect(getHTMLMarkup("\\url{https://example.com}"))
+                .toContain("<a href=\"https://example.com\"");
+            expect(getHTMLMarkup("\\includegraphics{a.png}"))
+                .toContain("<img src=\"a.png\"");
+            expect(warn).not.toHaveBeenCalled();
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it("still applies allowedProtocols", function() {
+        expect(() => getParsed("\\href{javascript:alert(1)}{x}"))
+            .toThrow("Forbidden protocol 'javascript'");
+    });
+
+    it("doesn't trust the \\html commands", function() {
+        expect(getParsed("\\htmlClass{c}{x}", {strict: "ignore"})[0].type)
+            .toBe("color");
+    });
+});
+
+describe("Untrusted commands", function() {
+    it("show \\href's text in errorColor", function() {
+        const tree = getParsed("\\href{https://example.com}{ab}", untrusted);
+        expect(tree[0].type === "color" && tree[0].color).toBe("#cc0000");
+        expect(textOf(tree)).toBe("ab");
+        const markup = getHTMLMarkup("\\href{https://example.com}{ab}",
+            {...untrusted, errorColor: "#123456"});
+        expect(markup).toContain("color:#123456");
+        expect(markup).not.toContain("<a ");
+    });
+
+    it("show \\url's URL", function() {
+        const tree = getParsed("\\url{https://example.com}", untrusted);
+        expect(tree[0].type).toBe("color");
+        expect(textOf(tree)).toBe("https://example.com");
+    });
+
+    it("show the name of \\includegraphics", function() {
+        const tree = getParsed("\\includegraphics{a.png}", untrusted);
+        expect(tree[0].type).toBe("color");
+        expect(textOf(tree)).toBe("\\includegraphics");
+        expect(getHTMLMarkup("\\includegraphics{a.png}", untrusted))
+            .not.toContain("<img");
+    });
+
+    it("are rendered as such when trusted", function() {
+        expect(getHTMLMarkup("\\href{https://example.com}{ab}",
+            {trust: true})).toContain("<a href=\"https://example.com\"");
+        expect(getHTMLMarkup("\\includegraphics{a.png}", {trust: true}))
+            .toContain("<img src=\"a.png\"");
+    });
+
+    it("are trusted by a function of the command and URL", function() {
+        const contexts: TrustContext[] = [];
+        const trust = (context: TrustContext) => {
+            contexts.push(context);
+            return context.protocol === "https";
+        };
+        const tree = getParsed(
+            "\\href{https://a.com}{x}\\href{http://b.com}{y}", {trust});
+        expect(tree.map(node => node.type)).toEqual(["href", "color"]);
+        expect(contexts).toEqual([
+            {command: "\\href", url: "https://a.com", protocol: "https"},
+            {command: "\\href", url: "http://b.com", protocol: "http"},
+        ]);
+    });
+});
+
+describe("Untrusted commands in strict mode", function() {
+    it("are errors with strict set to error", function() {
+        expect(() => getParsed("\\href{https://example.com}{x}",
+            {strict: "error", trust: false}))
+            .toThrow("LaTeX-incompatible input and strict mode is set to " +
+                "'error': \\href is not trusted (see the trust setting) " +
+                "[untrustedCommand]");
+        expect(() => getParsed("\\htmlId{a}{x}", {strict: true}))
+            .toThrow("[untrustedCommand]");
+    });
+
+    it("are warnings with the default strict setting", function() {
+        const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+        try {
+            expect(getStripped("\\url{a}", {trust: false}))
+                .toEqual(getStripped("\\url{a}", untrusted));
+            expect(warn).toHaveBeenCalledWith(
+                "LaTeX-incompatible input and strict mode is set to 'warn': " +
+                "\\url is not trusted (see the trust setting) " +
+                "[untrustedCommand]");
+        } finally {
+            warn.mockRestore();
+        }
+    });
+
+    it("are reported to a strict function", function() {
+        const reports: string[] = [];
+        const strict = (errorCode: string, errorMsg: string) => {
+            reports.push(errorCode + ": " + errorMsg);
+            return "ignore" as "ignore";
+        };
+        getParsed("\\includegraphics{a.png}\\htmlClass{c}{x}",
+            {strict, trust: false});
+        expect(reports).toEqual([
+            "untrustedCommand: \\includegraphics is not trusted " +
+                "(see the trust setting)",
+            "untrustedCommand: \\htmlClass is not trusted " +
+                "(see the trust setting)",
+        ]);
+    });
+
+    it("aren't reported when trusted", function() {
+        expect(() => getParsed("\\href{https://example.com}{x}",
+            {strict: "error", trust: true})).not.toThrow();
+    });
+});